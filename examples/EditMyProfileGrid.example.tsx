@@ -194,8 +194,8 @@ export function EditMyProfileGrid({
                 autoScroll: {
                     enabled: true,
                     threshold: 80,
-                    maxSpeed: 15,
-                    acceleration: 1.5,
+                    maxSpeed: 900,
+                    easing: "easeIn",
                 },
                 activationDelay: 200,
                 activationDistance: 5,
@@ -90,6 +90,7 @@ const SortableCard: React.FC<SortableCardProps> = (
 
     const {
         ref,
+        handleRef,
         isDragging,
         isOver,
         transform,
@@ -131,6 +132,7 @@ const SortableCard: React.FC<SortableCardProps> = (
                 isOver ? "over" : ""
             }`}
             {...attributes}
+            {...listeners}
         >
             <div
                 className="handle-card-inner"
@@ -150,8 +152,8 @@ const SortableCard: React.FC<SortableCardProps> = (
                 <div className="handle-card-actions">
                     {/* Drag Handle - ONLY this triggers drag */}
                     <button
+                        ref={handleRef}
                         className="handle-button drag-handle"
-                        {...listeners}
                     >
                         <IonIcon icon={moveOutline} />
                         <span>Drag</span>
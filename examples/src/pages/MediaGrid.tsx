@@ -63,6 +63,7 @@ const SortableMediaItem: React.FC<SortableMediaItemProps> = (
     } = useSortable({
         id: item.id,
         index,
+        strategy: "grid",
     });
 
     const style: React.CSSProperties = {
@@ -3,58 +3,212 @@ import React, {
     useCallback,
     useContext,
     useEffect,
+    useId,
     useMemo,
     useRef,
     useState,
 } from "react";
+import {
+    defaultAnnouncements,
+    defaultScreenReaderInstructions,
+    visuallyHidden,
+} from "./announcements";
+import { defaultCollisionDetection } from "./collisionDetection";
+import { defaultHaptics } from "./haptics";
+import { resolvePlatform } from "./platform";
+import { createSensor, KeyboardSensor, PointerSensor } from "./sensors";
+import { createStore, type Store, useStoreSelector } from "./store";
 import type {
+    CollisionCandidate,
     DragDropContextConfig,
+    DragDropMonitor,
     DragEndEvent,
+    DragItem,
     DragMoveEvent,
     DragOverEvent,
     DragStartEvent,
     DragState,
+    HapticMoment,
+    Modifier,
     Position,
+    Rect,
+    SortableTreeConfig,
+    SortingStrategy,
+    TreeProjection,
+    VirtualListConfig,
 } from "./types";
 import { useAutoScroll } from "./useAutoScroll";
 
-// Check if we're running on Capacitor
-const isCapacitor = typeof (window as any)?.Capacitor !== "undefined";
-
-// Haptic feedback helper
-const triggerHaptic = async (type: "light" | "medium" | "heavy" = "medium") => {
-    if (!isCapacitor) return;
-
-    try {
-        const { Haptics, ImpactStyle } = await import("@capacitor/haptics");
-        const style = type === "light"
-            ? ImpactStyle.Light
-            : type === "heavy"
-            ? ImpactStyle.Heavy
-            : ImpactStyle.Medium;
-        await Haptics.impact({ style });
-    } catch {
-        // Haptics not available
+const translateRect = (rect: Rect, delta: Position): Rect => ({
+    top: rect.top + delta.y,
+    left: rect.left + delta.x,
+    right: rect.right + delta.x,
+    bottom: rect.bottom + delta.y,
+    width: rect.width,
+    height: rect.height,
+});
+
+// Offset that moves `rect` into `slot`. Leading edges are aligned when
+// moving backwards and trailing edges when moving forwards so items of
+// different sizes line up.
+const alignToSlot = (rect: Rect, slot: Rect, forwards: boolean): Position =>
+    forwards
+        ? { x: slot.right - rect.right, y: slot.bottom - rect.bottom }
+        : { x: slot.left - rect.left, y: slot.top - rect.top };
+
+const containsPoint = (rect: Rect, point: Position) =>
+    point.x >= rect.left && point.x <= rect.right &&
+    point.y >= rect.top && point.y <= rect.bottom;
+
+// Index of the last slot starting at or before `offset`
+const findSlotIndex = (starts: number[], offset: number) => {
+    let low = 0;
+    let high = starts.length - 1;
+    while (low < high) {
+        const mid = Math.ceil((low + high) / 2);
+        if (starts[mid] <= offset) {
+            low = mid;
+        } else {
+            high = mid - 1;
+        }
     }
+    return low;
 };
 
+/**
+ * Live region for screen reader announcements. Subscribes on its own so
+ * announcing doesn't re-render the provider.
+ */
+function LiveRegion({ store }: { store: Store<string> }) {
+    const announcement = useStoreSelector(store, (message) => message);
+    return (
+        <div
+            role="status"
+            aria-live="assertive"
+            aria-atomic="true"
+            style={visuallyHidden}
+        >
+            {announcement}
+        </div>
+    );
+}
+
+interface RegisteredItem {
+    index: number;
+    element: HTMLElement;
+    containerId: string | null;
+    data: unknown;
+}
+
+interface ContainerOptions {
+    strategy?: SortingStrategy;
+    virtual?: VirtualListConfig | null;
+    tree?: SortableTreeConfig | null;
+    group?: string | null;
+}
+
+interface RegisteredContainer {
+    element: HTMLElement;
+    /** Set for virtualized containers */
+    virtual: VirtualListConfig | null;
+    /** Set for tree containers */
+    tree: SortableTreeConfig | null;
+    /** Items only move between containers of the same group */
+    group: string | null;
+    axis: "x" | "y";
+}
+
+/** Slot offsets of a virtualized container along its axis */
+interface VirtualSlots {
+    starts: number[];
+    sizes: number[];
+    /** Offset just past the last slot */
+    end: number;
+}
+
+interface RegisteredDroppable {
+    element: HTMLElement;
+    data: unknown;
+    disabled: boolean;
+}
+
+interface StartDragOptions {
+    containerId?: string | null;
+    /** Data for items that are not in the sortable registry */
+    data?: unknown;
+    /** Modifiers for this drag, applied after the provider's */
+    modifiers?: Modifier[];
+}
+
+interface OverTarget {
+    id: string | null;
+    index: number;
+    containerId: string | null;
+}
+
+interface DropAnimatorArgs {
+    cancelled: boolean;
+    /** Where the dragged item comes to rest, null if it stays in place */
+    rect: Rect | null;
+    /** The source element of the dragged item */
+    element: HTMLElement | null;
+}
+
+/** Plays the drop animation; the drag finishes once it resolves */
+type DropAnimator = (args: DropAnimatorArgs) => Promise<void>;
+
 interface DragDropContextValue {
-    state: DragState;
+    /** Drag state; subscribe with useDragSelector to limit re-renders */
+    store: Store<DragState>;
     config: Required<DragDropContextConfig>;
-    registerItem: (id: string, index: number, element: HTMLElement) => void;
+    /** ID of the element holding the screen reader instructions */
+    descriptionId: string;
+    registerItem: (
+        id: string,
+        index: number,
+        element: HTMLElement,
+        containerId?: string | null,
+        data?: unknown,
+    ) => void;
     unregisterItem: (id: string) => void;
+    registerContainer: (
+        id: string,
+        element: HTMLElement,
+        options?: ContainerOptions,
+    ) => void;
+    unregisterContainer: (id: string) => void;
+    registerDroppable: (
+        id: string,
+        element: HTMLElement,
+        data?: unknown,
+        disabled?: boolean,
+    ) => void;
+    unregisterDroppable: (id: string) => void;
+    /** Start a drag; pass a null index for free-form (non-sortable) drags */
     startDrag: (
         id: string,
-        index: number,
+        index: number | null,
         position: Position,
         element: HTMLElement,
+        options?: StartDragOptions,
     ) => void;
     updateDrag: (position: Position) => void;
+    moveDragTo: (overIndex: number) => void;
     endDrag: (cancelled?: boolean) => void;
     getItemElement: (id: string) => HTMLElement | undefined;
     getItemIndex: (id: string) => number;
-    items: Map<string, { index: number; element: HTMLElement }>;
-    scrollOffset: { x: number; y: number };
+    getItemContainerId: (id: string) => string | null;
+    getItemData: (id: string) => unknown;
+    getItemRect: (id: string) => Rect | undefined;
+    /** Subscribe to drag lifecycle events; returns an unsubscribe function */
+    subscribe: (monitor: DragDropMonitor) => () => void;
+    /** Register the animation played before a drag finishes */
+    setDropAnimator: (animator: DropAnimator | null) => void;
+    items: Map<string, RegisteredItem>;
+    /** Scroll distance auto-scrolled since the drag started */
+    scrollStore: Store<Position>;
+    /** IDs selected for multi-item drags */
+    selectionStore: Store<string[]>;
 }
 
 const DragDropContext = createContext<DragDropContextValue | null>(null);
@@ -69,89 +223,425 @@ export function useDragDropContext() {
     return context;
 }
 
-interface DragDropProviderProps {
+/**
+ * Select a slice of the drag state. The component only re-renders when the
+ * selection changes, not on every pointer move.
+ */
+export function useDragSelector<R>(
+    selector: (state: DragState) => R,
+    isEqual?: (a: R, b: R) => boolean,
+): R {
+    const { store } = useDragDropContext();
+    return useStoreSelector(store, selector, isEqual);
+}
+
+const INITIAL_DRAG_STATE: DragState = {
+    isDragging: false,
+    draggedId: null,
+    draggedIndex: null,
+    overIndex: null,
+    draggedContainerId: null,
+    overContainerId: null,
+    overDroppableId: null,
+    initialPosition: null,
+    currentPosition: null,
+    offset: null,
+    isDropping: false,
+    draggedIds: [],
+    draggedIndexes: [],
+};
+
+/**
+ * Index the dragged items start at once dropped, counted in the target
+ * container after removing them from the source. Null for free-form drags.
+ */
+export function getDropIndex(state: DragState): number | null {
+    const { draggedIndex, overIndex, draggedIndexes } = state;
+    if (draggedIndex === null || overIndex === null) return null;
+    if (state.overContainerId !== state.draggedContainerId) return overIndex;
+
+    const movedBefore = (index: number) =>
+        draggedIndexes.filter((moved) => moved < index).length;
+    if (overIndex === draggedIndex) {
+        return draggedIndex - movedBefore(draggedIndex);
+    }
+
+    // Land before the hovered item when moving back, after it when moving on
+    const rank = overIndex - movedBefore(overIndex);
+    return overIndex > draggedIndex ? rank + 1 : rank;
+}
+
+/**
+ * Depth and parent the dragged item of a tree container would land at.
+ * The horizontal drag distance picks the depth, limited by the items
+ * around the drop position. Null when not sorting within the tree.
+ */
+export function getTreeProjection(
+    state: DragState,
+    { items, indentationWidth = 24, maxDepth = Infinity }: SortableTreeConfig,
+): TreeProjection | null {
+    const { draggedIndex, currentPosition, initialPosition } = state;
+    const active = draggedIndex !== null ? items[draggedIndex] : undefined;
+    const dropIndex = getDropIndex(state);
+    if (
+        !active || dropIndex === null || !currentPosition ||
+        !initialPosition ||
+        state.overContainerId !== state.draggedContainerId
+    ) {
+        return null;
+    }
+
+    // Neighbours once the moved items are taken out and reinserted
+    const remaining = items.filter((item) =>
+        !state.draggedIds.includes(item.id)
+    );
+    const previous = remaining[dropIndex - 1];
+    const next = remaining[dropIndex];
+
+    const dragDepth = Math.round(
+        (currentPosition.x - initialPosition.x) / indentationWidth,
+    );
+    const max = Math.min(maxDepth, previous ? previous.depth + 1 : 0);
+    const min = next ? next.depth : 0;
+    const depth = Math.max(min, Math.min(active.depth + dragDepth, max));
+
+    let parentId: string | null = null;
+    if (previous && depth > 0) {
+        if (depth > previous.depth) {
+            parentId = previous.id;
+        } else {
+            // Sibling of the closest preceding item at the same depth
+            const sibling = remaining
+                .slice(0, dropIndex)
+                .reverse()
+                .find((item) => item.depth === depth);
+            parentId = sibling?.parentId ?? null;
+        }
+    }
+
+    return { depth, minDepth: min, maxDepth: max, parentId };
+}
+
+interface DragDropProviderProps<T = unknown> {
     children: React.ReactNode;
     config?: DragDropContextConfig;
-    onDragStart?: (event: DragStartEvent) => void;
-    onDragMove?: (event: DragMoveEvent) => void;
-    onDragEnd?: (event: DragEndEvent) => void;
-    onDragOver?: (event: DragOverEvent) => void;
+    onDragStart?: (event: DragStartEvent<T>) => void;
+    onDragMove?: (event: DragMoveEvent<T>) => void;
+    onDragEnd?: (event: DragEndEvent<T>) => void;
+    onDragOver?: (event: DragOverEvent<T>) => void;
 }
 
-const DEFAULT_CONFIG: Required<DragDropContextConfig> = {
+// The platform and its haptics adapter are resolved on first render
+const DEFAULT_CONFIG: Required<
+    Omit<DragDropContextConfig, "platform" | "hapticsAdapter">
+> = {
     autoScroll: {
         enabled: true,
         threshold: 80,
-        maxSpeed: 15,
-        acceleration: 1.5,
+        maxSpeed: 900,
+        easing: "easeIn",
+        rampUpDuration: 400,
+        insets: {},
     },
     activationDelay: 150,
     activationDistance: 5,
+    sensors: [createSensor(PointerSensor), createSensor(KeyboardSensor)],
     hapticFeedback: true,
+    haptics: defaultHaptics,
     lockAxis: null,
+    modifiers: [],
+    collisionDetection: defaultCollisionDetection,
+    announcements: defaultAnnouncements,
+    screenReaderInstructions: defaultScreenReaderInstructions,
 };
 
-export function DragDropProvider({
+export function DragDropProvider<T = unknown>({
     children,
     config: userConfig,
     onDragStart,
     onDragMove,
     onDragEnd,
     onDragOver,
-}: DragDropProviderProps) {
-    const config = useMemo(() => ({
-        ...DEFAULT_CONFIG,
-        ...userConfig,
-        autoScroll: { ...DEFAULT_CONFIG.autoScroll, ...userConfig?.autoScroll },
-    }), [userConfig]);
-
-    const [state, setState] = useState<DragState>({
-        isDragging: false,
-        draggedId: null,
-        draggedIndex: null,
-        overIndex: null,
-        initialPosition: null,
-        currentPosition: null,
-        offset: null,
-    });
-
-    // Keep a ref to the latest state for use in callbacks
-    const stateRef = useRef(state);
-    useEffect(() => {
-        stateRef.current = state;
-    }, [state]);
+}: DragDropProviderProps<T>) {
+    const config = useMemo(() => {
+        const platform = userConfig?.platform ?? resolvePlatform();
+        // Fall back per key so options explicitly set to undefined keep
+        // their defaults
+        return {
+            activationDelay: userConfig?.activationDelay ??
+                DEFAULT_CONFIG.activationDelay,
+            activationDistance: userConfig?.activationDistance ??
+                DEFAULT_CONFIG.activationDistance,
+            hapticFeedback: userConfig?.hapticFeedback ??
+                DEFAULT_CONFIG.hapticFeedback,
+            sensors: userConfig?.sensors ?? DEFAULT_CONFIG.sensors,
+            lockAxis: userConfig?.lockAxis ?? DEFAULT_CONFIG.lockAxis,
+            modifiers: userConfig?.modifiers ?? DEFAULT_CONFIG.modifiers,
+            collisionDetection: userConfig?.collisionDetection ??
+                DEFAULT_CONFIG.collisionDetection,
+            screenReaderInstructions: userConfig?.screenReaderInstructions ??
+                DEFAULT_CONFIG.screenReaderInstructions,
+            autoScroll: {
+                ...DEFAULT_CONFIG.autoScroll,
+                ...userConfig?.autoScroll,
+            },
+            announcements: {
+                ...DEFAULT_CONFIG.announcements,
+                ...userConfig?.announcements,
+            },
+            haptics: { ...DEFAULT_CONFIG.haptics, ...userConfig?.haptics },
+            platform,
+            hapticsAdapter: userConfig?.hapticsAdapter ?? platform.haptics,
+        };
+    }, [userConfig]);
+
+    // Play the haptic pattern configured for a drag moment
+    const triggerHaptic = useCallback((moment: HapticMoment) => {
+        const pattern = config.haptics[moment];
+        if (!config.hapticFeedback || !pattern) return;
+
+        try {
+            Promise.resolve(config.hapticsAdapter.trigger(pattern, moment))
+                .catch(() => {
+                    // Haptics not available
+                });
+        } catch {
+            // Haptics not available
+        }
+    }, [config.hapticFeedback, config.haptics, config.hapticsAdapter]);
+
+    // Matches between server and client render, unlike a module counter
+    const descriptionId = `ionic-dnd-description-${useId()}`;
+    const [announcementStore] = useState(() => createStore(""));
+
+    // Publish a message to the live region for screen readers
+    const announce = useCallback((message: string | undefined) => {
+        if (message) {
+            announcementStore.setState(message);
+        }
+    }, [announcementStore]);
 
-    const [scrollOffset, setScrollOffset] = useState({ x: 0, y: 0 });
+    // Drag state lives in stores so updates only re-render subscribers
+    // whose selection changed, not the whole tree
+    const [store] = useState(() => createStore(INITIAL_DRAG_STATE));
+    const [scrollStore] = useState(() => createStore<Position>({ x: 0, y: 0 }));
+    const [selectionStore] = useState(() => createStore<string[]>([]));
 
-    const itemsRef = useRef<
-        Map<string, { index: number; element: HTMLElement }>
-    >(new Map());
+    const itemsRef = useRef<Map<string, RegisteredItem>>(new Map());
+    const containersRef = useRef<Map<string, RegisteredContainer>>(new Map());
+    const droppablesRef = useRef<Map<string, RegisteredDroppable>>(new Map());
+    const monitorsRef = useRef<Set<DragDropMonitor>>(new Set());
     const draggedElementRef = useRef<HTMLElement | null>(null);
     const initialIndexRef = useRef<number | null>(null);
+    const initialRectRef = useRef<Rect | null>(null);
+    const activeModifiersRef = useRef<Modifier[]>([]);
+    // Data of the dragged item, kept in case the item unmounts mid-drag
+    const draggedDataRef = useRef<T | null>(null);
+    // Every item moving in this drag, in index order
+    const draggedItemsRef = useRef<DragItem<T>[]>([]);
+    // Item rects measured when the drag started, before any displacement
+    const layoutRectsRef = useRef<Map<string, Rect>>(new Map());
+    const dropAnimatorRef = useRef<DropAnimator | null>(null);
+    // Token of a drag still resolving its scroll containers; cleared when
+    // the drag ends before it started
+    const pendingStartRef = useRef<object | null>(null);
+    // Set while the drop animation plays so the drag only ends once
+    const isDroppingRef = useRef(false);
+    // Distance each scroll container scrolled since the drag started
+    const scrollOffsetsRef = useRef<Map<HTMLElement, Position>>(new Map());
+    // Last known scroll position of each scroll container
+    const scrollPositionsRef = useRef<Map<HTMLElement, Position>>(new Map());
+    // Scroll containers around the dragged item, which carry it along
+    const draggedScrollContainersRef = useRef<Set<HTMLElement>>(new Set());
+    const stopWatchingScrollRef = useRef<(() => void) | null>(null);
+    // Re-runs hit testing once content moved under the pointer (assigned
+    // below, once the hit testing callbacks exist)
+    const refreshOverTargetRef = useRef<() => void>(() => {});
 
-    // Callback to handle scroll delta during auto-scroll
-    const handleScrollDelta = useCallback((delta: { x: number; y: number }) => {
-        // Accumulate scroll offset using state to trigger re-renders
-        setScrollOffset((prev) => ({
-            x: prev.x + delta.x,
-            y: prev.y + delta.y,
-        }));
+    // Callback to handle scroll delta during the drag. The dragged item's
+    // offset is the total of the containers around it.
+    const handleScrollDelta = useCallback((
+        delta: { x: number; y: number },
+        element: HTMLElement,
+    ) => {
+        const offset = scrollOffsetsRef.current.get(element) ?? { x: 0, y: 0 };
+        scrollOffsetsRef.current.set(element, {
+            x: offset.x + delta.x,
+            y: offset.y + delta.y,
+        });
+        const position = scrollPositionsRef.current.get(element);
+        if (position) {
+            scrollPositionsRef.current.set(element, {
+                x: position.x + delta.x,
+                y: position.y + delta.y,
+            });
+        }
+        if (draggedScrollContainersRef.current.has(element)) {
+            scrollStore.setState((prev) => ({
+                x: prev.x + delta.x,
+                y: prev.y + delta.y,
+            }));
+        }
+
+        refreshOverTargetRef.current();
+    }, [scrollStore]);
+
+    /**
+     * Distance an element moved through auto-scrolling of the containers
+     * around it since the drag started
+     */
+    const getScrollOffset = useCallback((element: HTMLElement): Position => {
+        const offset = { x: 0, y: 0 };
+        for (const [container, scrolled] of scrollOffsetsRef.current) {
+            if (container.contains(element)) {
+                offset.x += scrolled.x;
+                offset.y += scrolled.y;
+            }
+        }
+        return offset;
     }, []);
 
-    const { initScrollContainer, updateScroll, stopScroll } = useAutoScroll(
+    const handleScrollBoundary = useCallback(() => {
+        triggerHaptic("scrollBoundary");
+    }, [triggerHaptic]);
+
+    const {
+        initScrollContainer,
+        updateScroll,
+        stopScroll,
+        scrollableRef,
+        scrollChainRef,
+    } = useAutoScroll(
         config.autoScroll,
         handleScrollDelta,
+        handleScrollBoundary,
+        config.platform,
     );
 
+    /**
+     * Follow scrolling of the containers around the dragged item, by
+     * auto-scroll or by the user, for the rest of the drag
+     */
+    const watchScrollContainers = useCallback(() => {
+        stopWatchingScrollRef.current?.();
+        scrollPositionsRef.current = new Map();
+
+        const cleanups = scrollChainRef.current.map(
+            ({ element: container, scrollElement }) => {
+                if (!container || !scrollElement) return () => {};
+
+                scrollPositionsRef.current.set(container, {
+                    x: scrollElement.scrollLeft,
+                    y: scrollElement.scrollTop,
+                });
+                // Auto-scroll already reported its own scrolling, so only
+                // the distance past the last known position counts
+                const handleScroll = () => {
+                    const last = scrollPositionsRef.current.get(container);
+                    if (!last) return;
+                    const delta = {
+                        x: scrollElement.scrollLeft - last.x,
+                        y: scrollElement.scrollTop - last.y,
+                    };
+                    if (delta.x !== 0 || delta.y !== 0) {
+                        handleScrollDelta(delta, container);
+                    }
+                };
+
+                // The document's scroll events fire on the window
+                if (scrollElement === document.documentElement) {
+                    return config.platform.addGlobalListener(
+                        "scroll",
+                        handleScroll,
+                        { passive: true },
+                    );
+                }
+                scrollElement.addEventListener("scroll", handleScroll, {
+                    passive: true,
+                });
+                return () => {
+                    scrollElement.removeEventListener("scroll", handleScroll);
+                };
+            },
+        );
+
+        stopWatchingScrollRef.current = () => {
+            cleanups.forEach((cleanup) => cleanup());
+            stopWatchingScrollRef.current = null;
+        };
+    }, [scrollChainRef, handleScrollDelta, config.platform]);
+
+    useEffect(() => () => {
+        stopWatchingScrollRef.current?.();
+    }, []);
+
+    const subscribe = useCallback((monitor: DragDropMonitor) => {
+        monitorsRef.current.add(monitor);
+        return () => {
+            monitorsRef.current.delete(monitor);
+        };
+    }, []);
+
     const registerItem = useCallback(
-        (id: string, index: number, element: HTMLElement) => {
-            itemsRef.current.set(id, { index, element });
+        (
+            id: string,
+            index: number,
+            element: HTMLElement,
+            containerId: string | null = null,
+            data: unknown = null,
+        ) => {
+            itemsRef.current.set(id, { index, element, containerId, data });
         },
         [],
     );
 
     const unregisterItem = useCallback((id: string) => {
+        // Keep the dragged item alive when it unmounts mid-drag (e.g. a
+        // virtualized row scrolled out of view); it's removed on drop
+        if (id === store.getState().draggedId) return;
         itemsRef.current.delete(id);
+    }, [store]);
+
+    const registerContainer = useCallback(
+        (
+            id: string,
+            element: HTMLElement,
+            {
+                strategy = "vertical",
+                virtual = null,
+                tree = null,
+                group = null,
+            }: ContainerOptions = {},
+        ) => {
+            containersRef.current.set(id, {
+                element,
+                virtual,
+                tree,
+                group,
+                axis: strategy === "horizontal" ? "x" : "y",
+            });
+        },
+        [],
+    );
+
+    const unregisterContainer = useCallback((id: string) => {
+        containersRef.current.delete(id);
+    }, []);
+
+    const registerDroppable = useCallback(
+        (
+            id: string,
+            element: HTMLElement,
+            data: unknown = null,
+            disabled = false,
+        ) => {
+            droppablesRef.current.set(id, { element, data, disabled });
+        },
+        [],
+    );
+
+    const unregisterDroppable = useCallback((id: string) => {
+        droppablesRef.current.delete(id);
     }, []);
 
     const getItemElement = useCallback((id: string) => {
@@ -162,89 +652,554 @@ export function DragDropProvider({
         return itemsRef.current.get(id)?.index ?? -1;
     }, []);
 
+    const getItemContainerId = useCallback((id: string) => {
+        return itemsRef.current.get(id)?.containerId ?? null;
+    }, []);
+
+    const getItemData = useCallback((id: string) => {
+        return (itemsRef.current.get(id)?.data ?? null) as T;
+    }, []);
+
+    const getItemRect = useCallback((id: string) => {
+        return layoutRectsRef.current.get(id) ??
+            itemsRef.current.get(id)?.element.getBoundingClientRect();
+    }, []);
+
+    /**
+     * Slot positions of a virtualized container, using the measured size of
+     * mounted items and the estimated size of the rest
+     */
+    const getVirtualSlots = useCallback(
+        (containerId: string): VirtualSlots | null => {
+            const container = containersRef.current.get(containerId);
+            if (!container?.virtual) return null;
+
+            const { virtual, axis } = container;
+            const measured = new Map<number, number>();
+            for (const item of itemsRef.current.values()) {
+                if (
+                    item.containerId !== containerId ||
+                    !item.element.isConnected
+                ) {
+                    continue;
+                }
+                const rect = item.element.getBoundingClientRect();
+                measured.set(item.index, axis === "x" ? rect.width : rect.height);
+            }
+
+            const gap = virtual.gap ?? 0;
+            const starts: number[] = [];
+            const sizes: number[] = [];
+            let offset = 0;
+            for (let i = 0; i < virtual.count; i++) {
+                const size = measured.get(i) ??
+                    (typeof virtual.estimateSize === "function"
+                        ? virtual.estimateSize(i)
+                        : virtual.estimateSize);
+                starts.push(offset);
+                sizes.push(size);
+                offset += size + gap;
+            }
+
+            return {
+                starts,
+                sizes,
+                end: virtual.count > 0 ? offset - gap : 0,
+            };
+        },
+        [],
+    );
+
+    /** Viewport rect of a slot in a virtualized container */
+    const getVirtualSlotRect = useCallback(
+        (containerId: string | null, index: number): Rect | undefined => {
+            const container = containerId !== null
+                ? containersRef.current.get(containerId)
+                : undefined;
+            const slots = containerId !== null
+                ? getVirtualSlots(containerId)
+                : null;
+            if (!container || !slots) return undefined;
+
+            const start = slots.starts[index] ?? slots.end;
+            const size = slots.sizes[index] ?? 0;
+            const { top, left, right, bottom, width, height } =
+                container.element.getBoundingClientRect();
+            return container.axis === "x"
+                ? {
+                    top,
+                    left: left + start,
+                    right: left + start + size,
+                    bottom,
+                    width: size,
+                    height,
+                }
+                : {
+                    top: top + start,
+                    left,
+                    right,
+                    bottom: top + start + size,
+                    width,
+                    height: size,
+                };
+        },
+        [getVirtualSlots],
+    );
+
     const findItemAtPosition = useCallback(
-        (position: Position): { id: string; index: number } | null => {
-            let closestItem:
-                | { id: string; index: number; distance: number }
-                | null = null;
+        (position: Position): OverTarget | null => {
+            const state = store.getState();
 
-            for (const [id, { index, element }] of itemsRef.current) {
-                if (id === state.draggedId) continue;
+            // Only containers of the dragged item's group take part (e.g.
+            // kanban cards never land among the columns)
+            const getGroup = (containerId: string | null) =>
+                containerId !== null
+                    ? containersRef.current.get(containerId)?.group ?? null
+                    : null;
+            const group = getGroup(state.draggedContainerId);
 
-                const rect = element.getBoundingClientRect();
-                const centerY = rect.top + rect.height / 2;
+            // Virtualized containers hit-test against computed slot
+            // positions so the over index can move past the rendered window
+            for (const [containerId, container] of containersRef.current) {
+                if (!container.virtual || container.group !== group) continue;
 
-                // Check if position is within the horizontal bounds
-                if (position.x >= rect.left && position.x <= rect.right) {
-                    // Calculate vertical distance to center
-                    const distance = Math.abs(position.y - centerY);
+                const rect = container.element.getBoundingClientRect();
+                const slots = containsPoint(rect, position)
+                    ? getVirtualSlots(containerId)
+                    : null;
+                if (!slots) continue;
 
-                    // If pointer is within the item's vertical bounds, return immediately
-                    if (position.y >= rect.top && position.y <= rect.bottom) {
-                        return { id, index };
-                    }
+                const count = slots.starts.length;
+                const isSource = containerId === state.draggedContainerId;
+                const offset = container.axis === "x"
+                    ? position.x - rect.left
+                    : position.y - rect.top;
+
+                let index = count > 0 ? findSlotIndex(slots.starts, offset) : 0;
+                // Across containers the index is an insertion point, so
+                // move past the slot once the pointer is beyond its middle
+                if (
+                    !isSource && count > 0 &&
+                    offset > slots.starts[index] + slots.sizes[index] / 2
+                ) {
+                    index++;
+                }
+                index = Math.max(
+                    0,
+                    Math.min(index, isSource ? count - 1 : count),
+                );
 
-                    // Track closest item for edge cases
-                    if (!closestItem || distance < closestItem.distance) {
-                        closestItem = { id, index, distance };
+                let id: string | null = null;
+                for (const [itemId, item] of itemsRef.current) {
+                    if (
+                        !state.draggedIds.includes(itemId) &&
+                        item.containerId === containerId &&
+                        item.index === index
+                    ) {
+                        id = itemId;
+                        break;
                     }
                 }
+                return { id, index, containerId };
+            }
+
+            // Hit-test against the layout measured when the drag started,
+            // moved by any scrolling since: live rects include displacement
+            // transforms. The dragged item's own slot stays a candidate so
+            // hovering it resolves back to the original index.
+            const candidates: CollisionCandidate[] = [];
+            for (const [id, { index, element, containerId }] of itemsRef.current) {
+                if (
+                    (id !== state.draggedId && state.draggedIds.includes(id)) ||
+                    getGroup(containerId) !== group
+                ) {
+                    continue;
+                }
+                // Items of virtualized containers were handled above
+                if (
+                    containerId !== null &&
+                    containersRef.current.get(containerId)?.virtual
+                ) {
+                    continue;
+                }
+                const layoutRect = layoutRectsRef.current.get(id);
+                const scrolled = getScrollOffset(element);
+                candidates.push({
+                    id,
+                    index,
+                    containerId,
+                    rect: layoutRect
+                        ? translateRect(layoutRect, {
+                            x: -scrolled.x,
+                            y: -scrolled.y,
+                        })
+                        : element.getBoundingClientRect(),
+                });
+            }
+
+            // Empty containers under the pointer take the drop before the
+            // strategy runs, since closest-item strategies pick an item in
+            // another container whenever there is one. Nested empty
+            // containers resolve to the innermost (smallest) one.
+            let empty: { containerId: string; area: number } | null = null;
+            for (const [containerId, container] of containersRef.current) {
+                if (
+                    container.group !== group || container.virtual ||
+                    candidates.some((candidate) =>
+                        candidate.containerId === containerId
+                    )
+                ) {
+                    continue;
+                }
+                const rect = container.element.getBoundingClientRect();
+                const area = rect.width * rect.height;
+                if (
+                    containsPoint(rect, position) &&
+                    (!empty || area < empty.area)
+                ) {
+                    empty = { containerId, area };
+                }
+            }
+            if (empty) {
+                return { id: null, index: 0, containerId: empty.containerId };
             }
 
-            // Return closest item if within reasonable distance (100px)
-            if (closestItem && closestItem.distance < 100) {
-                return { id: closestItem.id, index: closestItem.index };
+            // Move the dragged item's initial rect along with the pointer
+            const initialRect = initialRectRef.current;
+            const activeRect = initialRect && state.initialPosition
+                ? translateRect(initialRect, {
+                    x: position.x - state.initialPosition.x,
+                    y: position.y - state.initialPosition.y,
+                })
+                : null;
+
+            const collision = config.collisionDetection({
+                pointer: position,
+                activeRect,
+                candidates,
+            });
+            if (collision) {
+                return {
+                    id: collision.id,
+                    index: collision.index,
+                    containerId: collision.containerId,
+                };
+            }
+
+            // Fall back to a container under the pointer so empty lists (or
+            // the blank area below the last item) accept drops at the end
+            for (const [containerId, container] of containersRef.current) {
+                if (
+                    container.group === group &&
+                    containsPoint(
+                        container.element.getBoundingClientRect(),
+                        position,
+                    )
+                ) {
+                    let count = 0;
+                    for (const [id, item] of itemsRef.current) {
+                        if (
+                            !state.draggedIds.includes(id) &&
+                            item.containerId === containerId
+                        ) {
+                            count++;
+                        }
+                    }
+                    return { id: null, index: count, containerId };
+                }
             }
 
             return null;
         },
-        [state.draggedId],
+        [store, config.collisionDetection, getVirtualSlots, getScrollOffset],
+    );
+
+    /**
+     * Find the droppable under the pointer. Nested droppables resolve to the
+     * innermost (smallest) one.
+     */
+    const findDroppableAtPosition = useCallback(
+        (position: Position): string | null => {
+            let found: { id: string; area: number } | null = null;
+
+            for (const [id, { element, disabled }] of droppablesRef.current) {
+                if (disabled) continue;
+
+                const rect = element.getBoundingClientRect();
+                if (containsPoint(rect, position)) {
+                    const area = rect.width * rect.height;
+                    if (!found || area < found.area) {
+                        found = { id, area };
+                    }
+                }
+            }
+
+            return found?.id ?? null;
+        },
+        [],
     );
 
     const startDrag = useCallback(async (
         id: string,
-        index: number,
+        index: number | null,
         position: Position,
         element: HTMLElement,
+        { containerId = null, data, modifiers = [] }: StartDragOptions = {},
     ) => {
         draggedElementRef.current = element;
         initialIndexRef.current = index;
+        activeModifiersRef.current = modifiers;
+        draggedDataRef.current = data !== undefined
+            ? data as T
+            : getItemData(id);
 
         // Reset scroll offset tracking
-        setScrollOffset({ x: 0, y: 0 });
+        scrollStore.setState({ x: 0, y: 0 });
+        scrollOffsetsRef.current = new Map();
 
-        // Initialize scroll container
-        await initScrollContainer(element);
+        // Initialize the scroll containers around the dragged item and
+        // around the lists and drop zones it can move into
+        const group = containerId !== null
+            ? containersRef.current.get(containerId)?.group ?? null
+            : null;
+        const related: HTMLElement[] = [];
+        for (const container of containersRef.current.values()) {
+            if (container.group === group) related.push(container.element);
+        }
+        for (const droppable of droppablesRef.current.values()) {
+            if (!droppable.disabled) related.push(droppable.element);
+        }
+        const pendingStart = {};
+        pendingStartRef.current = pendingStart;
+        await initScrollContainer(element, related);
+        // Released while the containers resolved: the sensor is gone
+        if (pendingStartRef.current !== pendingStart) return;
+        pendingStartRef.current = null;
+        draggedScrollContainersRef.current = new Set(
+            scrollChainRef.current
+                .map((scrollable) => scrollable.element)
+                .filter((container): container is HTMLElement =>
+                    !!container?.contains(element)
+                ),
+        );
+        watchScrollContainers();
 
-        // Trigger haptic feedback
-        if (config.hapticFeedback) {
-            triggerHaptic("medium");
+        triggerHaptic("pickup");
+
+        // Snapshot the layout so displacement can target untransformed slots
+        layoutRectsRef.current = new Map();
+        for (const [itemId, item] of itemsRef.current) {
+            layoutRectsRef.current.set(
+                itemId,
+                item.element.getBoundingClientRect(),
+            );
         }
 
+        // Descendants in a tree, or else selected items of the same
+        // container when the dragged item is selected, move along with it
+        const draggedItems: DragItem<T>[] = [{
+            id,
+            index: index ?? -1,
+            data: draggedDataRef.current as T,
+        }];
+        const tree = containerId !== null
+            ? containersRef.current.get(containerId)?.tree
+            : null;
+        const selection = selectionStore.getState();
+        if (tree && index !== null && tree.items[index]) {
+            const { depth } = tree.items[index];
+            for (let i = index + 1; i < tree.items.length; i++) {
+                const descendant = tree.items[i];
+                if (descendant.depth <= depth) break;
+                draggedItems.push({
+                    id: descendant.id,
+                    index: i,
+                    data: itemsRef.current.get(descendant.id)?.data as T,
+                });
+            }
+        } else if (index !== null && selection.includes(id)) {
+            for (const selectedId of selection) {
+                const item = itemsRef.current.get(selectedId);
+                if (
+                    selectedId !== id && item &&
+                    item.containerId === containerId
+                ) {
+                    draggedItems.push({
+                        id: selectedId,
+                        index: item.index,
+                        data: item.data as T,
+                    });
+                }
+            }
+            draggedItems.sort((a, b) => a.index - b.index);
+        }
+        draggedItemsRef.current = draggedItems;
+
         const rect = element.getBoundingClientRect();
+        initialRectRef.current = rect;
         const offset = {
             x: position.x - rect.left,
             y: position.y - rect.top,
         };
 
-        setState({
+        store.setState({
             isDragging: true,
             draggedId: id,
             draggedIndex: index,
             overIndex: index,
+            draggedContainerId: containerId,
+            overContainerId: containerId,
+            overDroppableId: null,
             initialPosition: position,
             currentPosition: position,
             offset,
+            isDropping: false,
+            draggedIds: draggedItems.map((item) => item.id),
+            draggedIndexes: draggedItems.map((item) => item.index),
         });
 
-        onDragStart?.({
-            item: { id, index, data: null },
+        const startEvent: DragStartEvent<T> = {
+            item: { id, index: index ?? -1, data: draggedDataRef.current as T },
             event: null as any,
-        });
-    }, [config.hapticFeedback, initScrollContainer, onDragStart]);
+        };
+        onDragStart?.(startEvent);
+        monitorsRef.current.forEach((monitor) =>
+            monitor.onDragStart?.(startEvent)
+        );
+        announce(config.announcements.onDragStart?.(startEvent));
+    }, [
+        store,
+        scrollStore,
+        selectionStore,
+        triggerHaptic,
+        config.announcements,
+        initScrollContainer,
+        scrollChainRef,
+        watchScrollContainers,
+        getItemData,
+        onDragStart,
+        announce,
+    ]);
+
+    /**
+     * Commit a new drag position and over target, firing move/over events
+     */
+    const applyDragPosition = useCallback((
+        position: Position,
+        overTarget: OverTarget | null,
+        overDroppableId: string | null = null,
+        moved = true,
+    ) => {
+        const state = store.getState();
+        const newOverIndex = overTarget?.index ?? state.overIndex;
+        const newOverContainerId = overTarget
+            ? overTarget.containerId
+            : state.overContainerId;
+        const overChanged = newOverIndex !== state.overIndex ||
+            newOverContainerId !== state.overContainerId;
+
+        // Trigger haptic on index, container or drop zone change
+        if (overChanged || overDroppableId !== state.overDroppableId) {
+            triggerHaptic("overChange");
+        }
+
+        store.setState((prev) => ({
+            ...prev,
+            currentPosition: position,
+            overIndex: newOverIndex,
+            overContainerId: newOverContainerId,
+            overDroppableId,
+        }));
+
+        // Scrolling moves the content, not the pointer
+        if (moved) {
+            const moveEvent: DragMoveEvent<T> = {
+                item: {
+                    id: state.draggedId!,
+                    index: state.draggedIndex ?? -1,
+                    data: draggedDataRef.current as T,
+                },
+                position,
+                delta: state.initialPosition
+                    ? {
+                        x: position.x - state.initialPosition.x,
+                        y: position.y - state.initialPosition.y,
+                    }
+                    : { x: 0, y: 0 },
+            };
+            onDragMove?.(moveEvent);
+            monitorsRef.current.forEach((monitor) =>
+                monitor.onDragMove?.(moveEvent)
+            );
+        }
+
+        if (overTarget) {
+            const overEvent: DragOverEvent<T> = {
+                item: {
+                    id: state.draggedId!,
+                    index: state.draggedIndex ?? -1,
+                    data: draggedDataRef.current as T,
+                },
+                overIndex: overTarget.index,
+                overItem: overTarget.id !== null
+                    ? {
+                        id: overTarget.id,
+                        index: overTarget.index,
+                        data: getItemData(overTarget.id),
+                    }
+                    : null,
+                fromContainerId: state.draggedContainerId,
+                toContainerId: overTarget.containerId,
+            };
+            onDragOver?.(overEvent);
+            monitorsRef.current.forEach((monitor) =>
+                monitor.onDragOver?.(overEvent)
+            );
+
+            // Only announce actual moves, not every pointer move
+            if (overChanged) {
+                announce(config.announcements.onDragOver?.(overEvent));
+            }
+        }
+    }, [
+        store,
+        triggerHaptic,
+        config.announcements,
+        getItemData,
+        onDragMove,
+        onDragOver,
+        announce,
+    ]);
+
+    /**
+     * Hit test the last drag position again after content scrolled under
+     * it, so the over target follows auto-scroll without pointer moves
+     */
+    const refreshOverTarget = useCallback(() => {
+        const state = store.getState();
+        const position = state.currentPosition;
+        if (!state.isDragging || state.isDropping || !position) return;
+
+        applyDragPosition(
+            position,
+            state.draggedIndex !== null ? findItemAtPosition(position) : null,
+            findDroppableAtPosition(position),
+            false,
+        );
+    }, [
+        store,
+        findItemAtPosition,
+        findDroppableAtPosition,
+        applyDragPosition,
+    ]);
+
+    useEffect(() => {
+        refreshOverTargetRef.current = refreshOverTarget;
+    }, [refreshOverTarget]);
 
     const updateDrag = useCallback((position: Position) => {
-        if (!state.isDragging) return;
+        const state = store.getState();
+        if (!state.isDragging || state.isDropping) return;
 
         // Apply axis lock if configured
         let finalPosition = position;
@@ -254,165 +1209,410 @@ export function DragDropProvider({
             finalPosition = { ...position, x: state.initialPosition.x };
         }
 
+        // Run the movement through provider and item modifiers
+        const modifiers = [...config.modifiers, ...activeModifiersRef.current];
+        if (modifiers.length > 0 && state.initialPosition) {
+            const scrollElement = scrollableRef.current.scrollElement;
+            const args = {
+                activeRect: initialRectRef.current,
+                offset: state.offset,
+                element: draggedElementRef.current,
+                scrollContainerRect: scrollElement
+                    ? scrollElement.getBoundingClientRect()
+                    : null,
+            };
+            const transform = modifiers.reduce(
+                (current, modifier) => modifier({ ...args, transform: current }),
+                {
+                    x: finalPosition.x - state.initialPosition.x,
+                    y: finalPosition.y - state.initialPosition.y,
+                },
+            );
+            finalPosition = {
+                x: state.initialPosition.x + transform.x,
+                y: state.initialPosition.y + transform.y,
+            };
+        }
+
         // Update auto-scroll
         updateScroll(finalPosition);
 
-        // Find item at current position
-        const overItem = findItemAtPosition(finalPosition);
-        const newOverIndex = overItem?.index ?? state.overIndex;
+        // Find item (or container) and drop zone at current position.
+        // Free-form drags don't take part in sorting.
+        applyDragPosition(
+            finalPosition,
+            state.draggedIndex !== null
+                ? findItemAtPosition(finalPosition)
+                : null,
+            findDroppableAtPosition(finalPosition),
+        );
+    }, [
+        store,
+        config.lockAxis,
+        config.modifiers,
+        scrollableRef,
+        updateScroll,
+        findItemAtPosition,
+        findDroppableAtPosition,
+        applyDragPosition,
+    ]);
 
-        // Trigger haptic on index change
-        if (newOverIndex !== state.overIndex && config.hapticFeedback) {
-            triggerHaptic("light");
+    /**
+     * Move the dragged item onto a slot of its container without pointer
+     * input (used for keyboard sorting)
+     */
+    const moveDragTo = useCallback((overIndex: number) => {
+        const state = store.getState();
+        if (
+            !state.isDragging || state.isDropping || !state.initialPosition
+        ) {
+            return;
         }
 
-        setState((prev) => ({
-            ...prev,
-            currentPosition: finalPosition,
-            overIndex: newOverIndex,
-        }));
+        const initialRect = initialRectRef.current;
+        let slotId: string | null = null;
+        for (const [id, item] of itemsRef.current) {
+            if (
+                item.containerId === state.draggedContainerId &&
+                item.index === overIndex
+            ) {
+                slotId = id;
+                break;
+            }
+        }
+        // Slots of virtualized containers may not be mounted
+        const slotRect = (slotId !== null
+            ? layoutRectsRef.current.get(slotId)
+            : undefined) ??
+            getVirtualSlotRect(state.draggedContainerId, overIndex);
+        if (!initialRect || !slotRect) return;
 
-        onDragMove?.({
-            item: {
-                id: state.draggedId!,
-                index: state.draggedIndex!,
-                data: null,
+        const forwards = overIndex > (initialIndexRef.current ?? overIndex);
+        const delta = alignToSlot(initialRect, slotRect, forwards);
+
+        applyDragPosition(
+            {
+                x: state.initialPosition.x + delta.x,
+                y: state.initialPosition.y + delta.y,
             },
-            position: finalPosition,
-            delta: state.initialPosition
-                ? {
-                    x: finalPosition.x - state.initialPosition.x,
-                    y: finalPosition.y - state.initialPosition.y,
+            {
+                id: slotId,
+                index: overIndex,
+                containerId: state.draggedContainerId,
+            },
+        );
+    }, [
+        store,
+        applyDragPosition,
+        getVirtualSlotRect,
+    ]);
+
+    /**
+     * Rect the dragged item comes to rest in: its origin when cancelled,
+     * otherwise the slot it was dropped on. Null when it stays in place.
+     */
+    const getDropRect = useCallback((
+        dragState: DragState,
+        cancelled: boolean,
+    ): Rect | null => {
+        const initialRect = initialRectRef.current;
+        if (!initialRect) return null;
+
+        // Layout rects were measured before any auto-scrolling; the
+        // dragged item moved with every scrolled container, other items
+        // only with the containers around them
+        const scroll = scrollStore.getState();
+        const toViewport = (rect: Rect, offset: Position = scroll) =>
+            translateRect(rect, { x: -offset.x, y: -offset.y });
+
+        if (cancelled) return toViewport(initialRect);
+        if (dragState.draggedIndex === null || dragState.overIndex === null) {
+            return null;
+        }
+
+        const fromIndex = initialIndexRef.current ?? dragState.draggedIndex;
+        const sameContainer =
+            dragState.overContainerId === dragState.draggedContainerId;
+        if (sameContainer && dragState.overIndex === fromIndex) {
+            return toViewport(initialRect);
+        }
+
+        // Virtual slots are measured live, so need no scroll adjustment
+        const virtualSlotRect = getVirtualSlotRect(
+            dragState.overContainerId,
+            dragState.overIndex,
+        );
+        if (virtualSlotRect) {
+            const forwards = sameContainer && dragState.overIndex > fromIndex;
+            return translateRect(
+                initialRect,
+                alignToSlot(initialRect, virtualSlotRect, forwards),
+            );
+        }
+
+        const findSlotRect = (index: number) => {
+            for (const [id, item] of itemsRef.current) {
+                if (
+                    id !== dragState.draggedId &&
+                    item.containerId === dragState.overContainerId &&
+                    item.index === index
+                ) {
+                    const rect = layoutRectsRef.current.get(id);
+                    return rect &&
+                        toViewport(rect, getScrollOffset(item.element));
                 }
-                : { x: 0, y: 0 },
-        });
+            }
+            return undefined;
+        };
 
-        if (overItem) {
-            onDragOver?.({
-                item: {
-                    id: state.draggedId!,
-                    index: state.draggedIndex!,
-                    data: null,
-                },
-                overIndex: overItem.index,
-                overItem: {
-                    id: overItem.id,
-                    index: overItem.index,
-                    data: null,
-                },
+        const slotRect = findSlotRect(dragState.overIndex);
+        if (slotRect) {
+            const forwards = sameContainer && dragState.overIndex > fromIndex;
+            return translateRect(
+                initialRect,
+                alignToSlot(initialRect, slotRect, forwards),
+            );
+        }
+
+        const container = dragState.overContainerId !== null
+            ? containersRef.current.get(dragState.overContainerId)
+            : undefined;
+
+        // Dropped past the last item of another container: beside it in
+        // horizontal containers, below it otherwise
+        const lastRect = findSlotRect(dragState.overIndex - 1);
+        if (lastRect) {
+            return translateRect(
+                initialRect,
+                container?.axis === "x"
+                    ? {
+                        x: lastRect.right - initialRect.left,
+                        y: lastRect.top - initialRect.top,
+                    }
+                    : {
+                        x: lastRect.left - initialRect.left,
+                        y: lastRect.bottom - initialRect.top,
+                    },
+            );
+        }
+
+        // Dropped into an empty container
+        if (container) {
+            const containerRect = container.element.getBoundingClientRect();
+            return translateRect(initialRect, {
+                x: containerRect.left - initialRect.left,
+                y: containerRect.top - initialRect.top,
             });
         }
-    }, [
-        state.isDragging,
-        state.initialPosition,
-        state.overIndex,
-        state.draggedId,
-        state.draggedIndex,
-        config.lockAxis,
-        config.hapticFeedback,
-        updateScroll,
-        findItemAtPosition,
-        onDragMove,
-        onDragOver,
-    ]);
 
-    const endDrag = useCallback((cancelled = false) => {
-        // Use stateRef for fresh state values
-        const currentState = stateRef.current;
-        if (!currentState.isDragging) return;
+        return null;
+    }, [scrollStore, getVirtualSlotRect, getScrollOffset]);
 
-        stopScroll();
+    const setDropAnimator = useCallback((animator: DropAnimator | null) => {
+        dropAnimatorRef.current = animator;
+    }, []);
 
-        // Trigger haptic feedback
-        if (config.hapticFeedback) {
-            triggerHaptic("medium");
+    const endDrag = useCallback((cancelled = false) => {
+        const currentState = store.getState();
+        if (!currentState.isDragging) {
+            // Abandon a drag that is still starting
+            pendingStartRef.current = null;
+            return;
         }
+        if (isDroppingRef.current) return;
+
+        stopScroll();
+        stopWatchingScrollRef.current?.();
 
         const fromIndex = initialIndexRef.current ??
-            currentState.draggedIndex ?? 0;
+            currentState.draggedIndex ?? -1;
         const toIndex = cancelled
             ? fromIndex
-            : (currentState.overIndex ?? fromIndex);
+            : (getDropIndex(currentState) ?? fromIndex);
+        const fromContainerId = currentState.draggedContainerId;
+        const toContainerId = cancelled
+            ? fromContainerId
+            : currentState.overContainerId;
+        const overDroppableId = cancelled
+            ? null
+            : currentState.overDroppableId;
+
+        // Free-form drags need a drop zone to land on
+        triggerHaptic(
+            cancelled
+                ? "cancel"
+                : currentState.draggedIndex === null && overDroppableId === null
+                ? "invalidDrop"
+                : "drop",
+        );
 
-        onDragEnd?.({
-            item: { id: currentState.draggedId!, index: fromIndex, data: null },
+        // Trees also report where in the hierarchy the item landed
+        const tree = fromContainerId !== null
+            ? containersRef.current.get(fromContainerId)?.tree
+            : null;
+        const treePlacement = tree
+            ? cancelled
+                ? tree.items[fromIndex]
+                : getTreeProjection(currentState, tree)
+            : null;
+
+        const endEvent: DragEndEvent<T> = {
+            item: {
+                id: currentState.draggedId!,
+                index: fromIndex,
+                data: draggedDataRef.current as T,
+            },
+            items: draggedItemsRef.current,
             fromIndex,
+            fromIndexes: draggedItemsRef.current.map((item) => item.index),
             toIndex,
+            fromContainerId,
+            toContainerId,
+            overDroppableId,
+            overDroppableData: overDroppableId !== null
+                ? droppablesRef.current.get(overDroppableId)?.data ?? null
+                : null,
+            ...(treePlacement && {
+                parentId: treePlacement.parentId,
+                depth: treePlacement.depth,
+            }),
             cancelled,
             // Include activeIndex and overIndex for easier destructuring
             activeIndex: fromIndex,
             overIndex: toIndex,
-        });
+        };
 
-        setState({
-            isDragging: false,
-            draggedId: null,
-            draggedIndex: null,
-            overIndex: null,
-            initialPosition: null,
-            currentPosition: null,
-            offset: null,
-        });
+        const finishDrag = () => {
+            isDroppingRef.current = false;
 
-        draggedElementRef.current = null;
-        initialIndexRef.current = null;
-    }, [config.hapticFeedback, stopScroll, onDragEnd]);
+            onDragEnd?.(endEvent);
+            monitorsRef.current.forEach((monitor) =>
+                monitor.onDragEnd?.(endEvent)
+            );
+            announce(
+                cancelled
+                    ? config.announcements.onDragCancel?.(endEvent)
+                    : config.announcements.onDragEnd?.(endEvent),
+            );
 
-    // Global event handlers for pointer/touch up and cancel
-    useEffect(() => {
-        if (!state.isDragging) return;
+            store.setState(INITIAL_DRAG_STATE);
 
-        const handlePointerUp = () => endDrag(false);
-        const handlePointerCancel = () => endDrag(true);
-        const handleKeyDown = (e: KeyboardEvent) => {
-            if (e.key === "Escape") {
-                endDrag(true);
+            // Drop the dragged item's registration if it unmounted mid-drag
+            const draggedItem = itemsRef.current.get(endEvent.item.id);
+            if (draggedItem && !draggedItem.element.isConnected) {
+                itemsRef.current.delete(endEvent.item.id);
             }
+
+            draggedElementRef.current = null;
+            initialIndexRef.current = null;
+            initialRectRef.current = null;
+            draggedDataRef.current = null;
+            draggedItemsRef.current = [];
+            activeModifiersRef.current = [];
+            layoutRectsRef.current = new Map();
         };
 
-        window.addEventListener("pointerup", handlePointerUp);
-        window.addEventListener("pointercancel", handlePointerCancel);
-        window.addEventListener("touchend", handlePointerUp);
-        window.addEventListener("touchcancel", handlePointerCancel);
-        window.addEventListener("keydown", handleKeyDown);
+        const animator = dropAnimatorRef.current;
+        if (!animator) {
+            finishDrag();
+            return;
+        }
 
-        return () => {
-            window.removeEventListener("pointerup", handlePointerUp);
-            window.removeEventListener("pointercancel", handlePointerCancel);
-            window.removeEventListener("touchend", handlePointerUp);
-            window.removeEventListener("touchcancel", handlePointerCancel);
-            window.removeEventListener("keydown", handleKeyDown);
-        };
-    }, [state.isDragging, endDrag]);
+        // Keep the drag state (and the displaced items) in place until the
+        // overlay has settled, then finish the drag
+        isDroppingRef.current = true;
+        store.setState((prev) => ({ ...prev, isDropping: true }));
+        animator({
+            cancelled,
+            rect: getDropRect(currentState, cancelled),
+            element: draggedElementRef.current,
+        }).then(finishDrag, finishDrag);
+    }, [
+        store,
+        triggerHaptic,
+        config.announcements,
+        stopScroll,
+        onDragEnd,
+        announce,
+        getDropRect,
+    ]);
+
+    // Sensors can outlive the component that started the drag (e.g. a
+    // virtualized row scrolled out of view), so hand out stable handlers
+    // that always run the latest implementation
+    const dragHandlersRef = useRef({ updateDrag, moveDragTo, endDrag });
+    useEffect(() => {
+        dragHandlersRef.current = { updateDrag, moveDragTo, endDrag };
+    }, [updateDrag, moveDragTo, endDrag]);
+
+    const handleUpdateDrag = useCallback((position: Position) => {
+        dragHandlersRef.current.updateDrag(position);
+    }, []);
+
+    const handleMoveDragTo = useCallback((overIndex: number) => {
+        dragHandlersRef.current.moveDragTo(overIndex);
+    }, []);
+
+    const handleEndDrag = useCallback((cancelled?: boolean) => {
+        dragHandlersRef.current.endDrag(cancelled);
+    }, []);
 
     const value = useMemo<DragDropContextValue>(() => ({
-        state,
+        store,
         config,
+        descriptionId,
         registerItem,
         unregisterItem,
+        registerContainer,
+        unregisterContainer,
+        registerDroppable,
+        unregisterDroppable,
         startDrag,
-        updateDrag,
-        endDrag,
+        updateDrag: handleUpdateDrag,
+        moveDragTo: handleMoveDragTo,
+        endDrag: handleEndDrag,
         getItemElement,
         getItemIndex,
+        getItemContainerId,
+        getItemData,
+        getItemRect,
+        subscribe,
+        setDropAnimator,
         items: itemsRef.current,
-        scrollOffset,
+        scrollStore,
+        selectionStore,
     }), [
-        state,
+        store,
         config,
+        descriptionId,
         registerItem,
         unregisterItem,
+        registerContainer,
+        unregisterContainer,
+        registerDroppable,
+        unregisterDroppable,
         startDrag,
-        updateDrag,
-        endDrag,
+        handleUpdateDrag,
+        handleMoveDragTo,
+        handleEndDrag,
         getItemElement,
         getItemIndex,
-        scrollOffset,
+        getItemContainerId,
+        getItemData,
+        getItemRect,
+        subscribe,
+        setDropAnimator,
+        scrollStore,
+        selectionStore,
     ]);
 
     return (
         <DragDropContext.Provider value={value}>
             {children}
+            <div id={descriptionId} style={visuallyHidden}>
+                {config.screenReaderInstructions}
+            </div>
+            <LiveRegion store={announcementStore} />
         </DragDropContext.Provider>
     );
 }
@@ -1,5 +1,6 @@
-import React, { useMemo } from "react";
-import { useDragDropContext } from "./DragDropProvider";
+import React, { useEffect, useLayoutEffect, useMemo, useRef } from "react";
+import { useDragDropContext, useDragSelector } from "./DragDropProvider";
+import type { DropAnimation, Rect } from "./types";
 
 interface DragOverlayProps {
     /** Content to render in the overlay (typically a clone of the dragged item) */
@@ -14,8 +15,117 @@ interface DragOverlayProps {
     zIndex?: number;
     /** Whether to show a drop shadow */
     dropShadow?: boolean;
+    /**
+     * Animate the overlay into the slot it was dropped on (or back to its
+     * origin when cancelled) before the drag finishes
+     */
+    dropAnimation?: DropAnimation | null;
+    /**
+     * Render a copy of the dragged element at its measured size when
+     * neither children nor a render function are given
+     */
+    clone?: boolean;
+    /** Custom count badge shown when several items are dragged together */
+    renderBadge?: (count: number) => React.ReactNode;
 }
 
+// Layout effects warn during server rendering, where effects never run
+const useIsomorphicLayoutEffect = typeof window !== "undefined"
+    ? useLayoutEffect
+    : useEffect;
+
+// Number of layers drawn behind the preview of a multi-item drag
+const MAX_STACK_LAYERS = 2;
+
+const stackLayerStyle = (depth: number): React.CSSProperties => ({
+    position: "absolute",
+    top: 0,
+    left: 0,
+    width: "100%",
+    height: "100%",
+    transform: `translate(${depth * 6}px, ${depth * 6}px)`,
+    opacity: 1 - depth * 0.3,
+    zIndex: -depth,
+    pointerEvents: "none",
+});
+
+const badgeStyle: React.CSSProperties = {
+    position: "absolute",
+    top: -10,
+    right: -10,
+    zIndex: 1,
+    minWidth: 24,
+    height: 24,
+    padding: "0 6px",
+    borderRadius: 12,
+    boxSizing: "border-box",
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "center",
+    background: "var(--ion-color-primary, #3880ff)",
+    color: "var(--ion-color-primary-contrast, #fff)",
+    fontSize: 13,
+    fontWeight: 600,
+};
+
+// Inline the computed styles of `source` (and its descendants) onto
+// `target` so the copy looks the same outside of its original context
+function copyComputedStyles(source: Element, target: Element) {
+    if (source instanceof HTMLElement || source instanceof SVGElement) {
+        const computed = window.getComputedStyle(source);
+        const style = (target as HTMLElement | SVGElement).style;
+        for (let i = 0; i < computed.length; i++) {
+            const name = computed[i];
+            style.setProperty(
+                name,
+                computed.getPropertyValue(name),
+                computed.getPropertyPriority(name),
+            );
+        }
+    }
+
+    for (let i = 0; i < source.children.length; i++) {
+        copyComputedStyles(source.children[i], target.children[i]);
+    }
+}
+
+// Deep copy of a dragged element, sized to its rect and stripped of
+// anything that would tie it to the original
+function cloneDraggedElement(element: HTMLElement, rect: Rect) {
+    const clone = element.cloneNode(true) as HTMLElement;
+    copyComputedStyles(element, clone);
+
+    // Avoid duplicate IDs and a second registration target in the DOM
+    clone.removeAttribute("id");
+    clone.querySelectorAll("[id]").forEach((node) =>
+        node.removeAttribute("id")
+    );
+    clone.removeAttribute("data-sortable-id");
+    clone.removeAttribute("data-draggable-id");
+    clone.setAttribute("aria-hidden", "true");
+
+    Object.assign(clone.style, {
+        position: "static",
+        boxSizing: "border-box",
+        width: `${rect.width}px`,
+        height: `${rect.height}px`,
+        margin: "0",
+        transform: "none",
+        transition: "none",
+        opacity: "1",
+        pointerEvents: "none",
+    });
+    return clone;
+}
+
+/** Drop animation settings used for any option left unset */
+export const defaultDropAnimation: Required<
+    Pick<DropAnimation, "duration" | "easing">
+> = {
+    duration: 250,
+    easing: "ease",
+};
+
 /**
  * Overlay component that follows the pointer during drag operations.
  * Use this to render a custom preview of the dragged item.
@@ -27,9 +137,95 @@ export function DragOverlay({
     style,
     zIndex = 9999,
     dropShadow = true,
+    dropAnimation = null,
+    clone = false,
+    renderBadge,
 }: DragOverlayProps) {
-    const { state } = useDragDropContext();
-    const { isDragging, draggedId, currentPosition, offset } = state;
+    const { setDropAnimator, getItemElement, getItemRect } =
+        useDragDropContext();
+    // The overlay follows the pointer, so it re-renders on every move
+    const { isDragging, draggedId, draggedIds, currentPosition, offset } =
+        useDragSelector((state) => state);
+    const count = draggedIds.length;
+    const layers = Math.min(count - 1, MAX_STACK_LAYERS);
+    const overlayRef = useRef<HTMLDivElement>(null);
+    const shouldClone = clone && !render && children === undefined;
+
+    // Mount the copy before paint so the overlay never flashes empty
+    useIsomorphicLayoutEffect(() => {
+        const overlay = overlayRef.current;
+        if (!shouldClone || !isDragging || !draggedId || !overlay) return;
+
+        const element = getItemElement(draggedId);
+        const rect = getItemRect(draggedId);
+        if (!element || !rect) return;
+
+        const copy = cloneDraggedElement(element, rect);
+        overlay.appendChild(copy);
+
+        // Stack layers of a multi-item drag show the same copy
+        const layerCopies: HTMLElement[] = [];
+        overlay.querySelectorAll("[data-stack-layer]").forEach((layer) => {
+            const layerCopy = copy.cloneNode(true) as HTMLElement;
+            layer.appendChild(layerCopy);
+            layerCopies.push(layerCopy);
+        });
+
+        return () => {
+            copy.remove();
+            layerCopies.forEach((layerCopy) => layerCopy.remove());
+        };
+    }, [
+        shouldClone,
+        isDragging,
+        draggedId,
+        layers,
+        getItemElement,
+        getItemRect,
+    ]);
+
+    // Read the latest options when the drop happens
+    const dropAnimationRef = useRef(dropAnimation);
+    dropAnimationRef.current = dropAnimation;
+    const hasDropAnimation = dropAnimation !== null;
+
+    useEffect(() => {
+        if (!hasDropAnimation) return;
+
+        setDropAnimator(async ({ cancelled, rect, element }) => {
+            const overlay = overlayRef.current;
+            const options = {
+                ...defaultDropAnimation,
+                ...dropAnimationRef.current,
+            };
+            if (!overlay) return;
+
+            const cleanup = options.sideEffects?.({
+                active: element,
+                overlay,
+                cancelled,
+            });
+            try {
+                if (rect && typeof overlay.animate === "function") {
+                    const animation = overlay.animate([
+                        { transform: overlay.style.transform },
+                        {
+                            transform:
+                                `translate3d(${rect.left}px, ${rect.top}px, 0)`,
+                        },
+                    ], {
+                        duration: options.duration,
+                        easing: options.easing,
+                        fill: "forwards",
+                    });
+                    await animation.finished;
+                }
+            } finally {
+                cleanup?.();
+            }
+        });
+        return () => setDropAnimator(null);
+    }, [hasDropAnimation, setDropAnimator]);
 
     const overlayStyle = useMemo((): React.CSSProperties => {
         if (!isDragging || !currentPosition) return { display: "none" };
@@ -55,8 +251,23 @@ export function DragOverlay({
     const content = render ? render(draggedId) : children;
 
     return (
-        <div className={className} style={overlayStyle}>
+        <div ref={overlayRef} className={className} style={overlayStyle}>
+            {Array.from({ length: layers }, (_, i) => (
+                <div
+                    key={i}
+                    data-stack-layer=""
+                    aria-hidden="true"
+                    style={stackLayerStyle(i + 1)}
+                >
+                    {content}
+                </div>
+            ))}
             {content}
+            {count > 1 && (
+                renderBadge
+                    ? renderBadge(count)
+                    : <span style={badgeStyle}>{count}</span>
+            )}
         </div>
     );
 }
@@ -0,0 +1,267 @@
+import React, { useCallback, useMemo } from "react";
+import { DragDropProvider } from "./DragDropProvider";
+import { arrayMove, SortableContainer } from "./SortableContainer";
+import { SortableItem } from "./SortableItem";
+import { useSortable } from "./useSortable";
+import type {
+    DragDropContextConfig,
+    DragEndEvent,
+    KanbanCard,
+    KanbanColumn,
+} from "./types";
+
+interface KanbanColumnRenderProps<C, T> {
+    column: KanbanColumn<C, T>;
+    index: number;
+    isDragging: boolean;
+    /** Attach to the element columns are dragged by (e.g. the header) */
+    handleRef: React.RefCallback<HTMLElement>;
+    /** The column's sortable card list */
+    cards: React.ReactNode;
+}
+
+interface KanbanCardRenderProps<C, T> {
+    card: KanbanCard<T>;
+    column: KanbanColumn<C, T>;
+    index: number;
+    isDragging: boolean;
+    isOver: boolean;
+    isSelected: boolean;
+}
+
+interface KanbanBoardProps<C, T> {
+    /** Columns and their cards. Column and card IDs must all be unique. */
+    columns: KanbanColumn<C, T>[];
+    /** Called with the new board structure after a column or card moved */
+    onChange: (columns: KanbanColumn<C, T>[], event: DragEndEvent) => void;
+    /** Render a card */
+    renderCard: (props: KanbanCardRenderProps<C, T>) => React.ReactNode;
+    /**
+     * Render a column around its card list. The default shows the column
+     * ID as a header that doubles as the drag handle.
+     */
+    renderColumn?: (props: KanbanColumnRenderProps<C, T>) => React.ReactNode;
+    /** Board ID, used as the ID of the column container (default: "board") */
+    id?: string;
+    /** Provider configuration */
+    config?: DragDropContextConfig;
+    /** Extra content rendered inside the provider (e.g. a DragOverlay) */
+    children?: React.ReactNode;
+    /** Additional class names */
+    className?: string;
+    /** Custom styles */
+    style?: React.CSSProperties;
+}
+
+function defaultRenderColumn<C, T>({
+    column,
+    handleRef,
+    cards,
+}: KanbanColumnRenderProps<C, T>) {
+    return (
+        <div
+            style={{
+                display: "flex",
+                flexDirection: "column",
+                width: 280,
+                maxHeight: "100%",
+            }}
+        >
+            <div ref={handleRef} style={{ cursor: "grab", padding: 8 }}>
+                {column.id}
+            </div>
+            {cards}
+        </div>
+    );
+}
+
+interface KanbanColumnItemProps<C, T> {
+    column: KanbanColumn<C, T>;
+    index: number;
+    boardId: string;
+    renderColumn: (props: KanbanColumnRenderProps<C, T>) => React.ReactNode;
+    renderCard: (props: KanbanCardRenderProps<C, T>) => React.ReactNode;
+}
+
+function KanbanColumnItem<C, T>({
+    column,
+    index,
+    boardId,
+    renderColumn,
+    renderCard,
+}: KanbanColumnItemProps<C, T>) {
+    const {
+        ref,
+        handleRef,
+        isDragging,
+        transform,
+        transition,
+        attributes,
+        listeners,
+    } = useSortable({
+        id: column.id,
+        index,
+        data: column.data,
+        containerId: boardId,
+    });
+
+    const cardIds = useMemo(
+        () => column.cards.map((card) => card.id),
+        [column.cards],
+    );
+
+    // Cards scroll vertically inside the column while the board scrolls
+    // horizontally
+    const cards = (
+        <SortableContainer
+            id={column.id}
+            items={cardIds}
+            group={`${boardId}:cards`}
+            style={{ flex: 1, minHeight: 0, overflowY: "auto" }}
+        >
+            {column.cards.map((card, cardIndex) => (
+                <SortableItem
+                    key={card.id}
+                    id={card.id}
+                    index={cardIndex}
+                    data={card.data}
+                    render={({ isDragging, isOver, isSelected }) =>
+                        renderCard({
+                            card,
+                            column,
+                            index: cardIndex,
+                            isDragging,
+                            isOver,
+                            isSelected,
+                        })}
+                >
+                    {null}
+                </SortableItem>
+            ))}
+        </SortableContainer>
+    );
+
+    return (
+        <div
+            ref={ref}
+            style={{
+                display: "flex",
+                flexDirection: "column",
+                maxHeight: "100%",
+                transform: transform
+                    ? `translate3d(${transform.x}px, ${transform.y}px, 0)`
+                    : undefined,
+                transition,
+                zIndex: isDragging ? 999 : 1,
+                opacity: isDragging ? 0.8 : 1,
+            }}
+            {...attributes}
+            {...listeners}
+        >
+            {renderColumn({ column, index, isDragging, handleRef, cards })}
+        </div>
+    );
+}
+
+/**
+ * Board of columns reorderable horizontally, with cards sortable within
+ * and across columns. Renders its own DragDropProvider.
+ */
+export function KanbanBoard<C = unknown, T = unknown>({
+    columns,
+    onChange,
+    renderCard,
+    renderColumn = defaultRenderColumn,
+    id = "board",
+    config,
+    children,
+    className = "",
+    style,
+}: KanbanBoardProps<C, T>) {
+    const columnIds = useMemo(
+        () => columns.map((column) => column.id),
+        [columns],
+    );
+
+    const handleDragEnd = useCallback((event: DragEndEvent) => {
+        const {
+            cancelled,
+            fromContainerId,
+            toContainerId,
+            fromIndexes,
+            toIndex,
+        } = event;
+        if (cancelled || fromContainerId === null || toContainerId === null) {
+            return;
+        }
+
+        // Nothing moved when the items are back where they started
+        if (
+            fromContainerId === toContainerId &&
+            fromIndexes.every((index, i) => index === toIndex + i)
+        ) {
+            return;
+        }
+
+        if (fromContainerId === id) {
+            onChange(arrayMove(columns, event.fromIndex, toIndex), event);
+            return;
+        }
+
+        const source = columns.find((column) => column.id === fromContainerId);
+        if (!source) return;
+
+        // Take the moved cards out, then insert them at toIndex, which is
+        // counted after the removal (within a column or across columns)
+        const moving = new Set(fromIndexes);
+        const moved = source.cards.filter((_, i) => moving.has(i));
+        const next = columns.map((column) =>
+            column.id === fromContainerId
+                ? {
+                    ...column,
+                    cards: column.cards.filter((_, i) => !moving.has(i)),
+                }
+                : column
+        );
+        onChange(
+            next.map((column) => {
+                if (column.id !== toContainerId) return column;
+                const cards = [...column.cards];
+                cards.splice(toIndex, 0, ...moved);
+                return { ...column, cards };
+            }),
+            event,
+        );
+    }, [columns, id, onChange]);
+
+    return (
+        <DragDropProvider config={config} onDragEnd={handleDragEnd}>
+            <SortableContainer
+                id={id}
+                items={columnIds}
+                strategy="horizontal"
+                group={`${id}:columns`}
+                className={className}
+                style={{
+                    alignItems: "flex-start",
+                    gap: 12,
+                    height: "100%",
+                    overflowX: "auto",
+                    ...style,
+                }}
+            >
+                {columns.map((column, index) => (
+                    <KanbanColumnItem
+                        key={column.id}
+                        column={column}
+                        index={index}
+                        boardId={id}
+                        renderColumn={renderColumn}
+                        renderCard={renderCard}
+                    />
+                ))}
+            </SortableContainer>
+            {children}
+        </DragDropProvider>
+    );
+}
@@ -1,9 +1,28 @@
-import React, { createContext, useCallback, useContext, useMemo } from "react";
+import React, {
+    createContext,
+    useCallback,
+    useContext,
+    useEffect,
+    useMemo,
+    useRef,
+} from "react";
+import { useDragDropContext } from "./DragDropProvider";
+import type {
+    FlattenedTreeItem,
+    SortableTreeConfig,
+    SortingStrategy,
+    TreeItem,
+    VirtualListConfig,
+} from "./types";
 
 interface SortableContainerContextValue {
+    id: string | null;
     items: string[];
-    strategy: "vertical" | "horizontal" | "grid";
+    strategy: SortingStrategy;
     columns?: number;
+    virtual?: VirtualListConfig;
+    tree?: SortableTreeConfig;
+    group?: string;
 }
 
 const SortableContainerContext = createContext<
@@ -16,12 +35,32 @@ export function useSortableContainer() {
 
 interface SortableContainerProps {
     children: React.ReactNode;
+    /**
+     * Unique container ID. Required when several containers share one
+     * DragDropProvider so items can be dragged between them.
+     */
+    id?: string;
     /** Array of item IDs in order */
     items: string[];
     /** Layout strategy */
-    strategy?: "vertical" | "horizontal" | "grid";
+    strategy?: SortingStrategy;
     /** Number of columns for grid layout */
     columns?: number;
+    /**
+     * Virtualized list layout (vertical or horizontal strategies only).
+     * Requires an `id`; `items` should hold every ID, mounted or not.
+     */
+    virtual?: VirtualListConfig;
+    /**
+     * Tree layout (vertical strategy only). `items` should hold the IDs of
+     * `tree.items` in the same order.
+     */
+    tree?: SortableTreeConfig;
+    /**
+     * Items only move between containers of the same group. Containers
+     * without a group exchange items with each other.
+     */
+    group?: string;
     /** Additional class names */
     className?: string;
     /** Custom styles */
@@ -34,17 +73,50 @@ interface SortableContainerProps {
  */
 export function SortableContainer({
     children,
+    id,
     items,
     strategy = "vertical",
     columns,
+    virtual,
+    tree,
+    group,
     className = "",
     style,
 }: SortableContainerProps) {
+    const { registerContainer, unregisterContainer } = useDragDropContext();
+    const elementRef = useRef<HTMLDivElement | null>(null);
+
+    // Register the container so it can accept drops even when empty
+    useEffect(() => {
+        if (!id || !elementRef.current) return;
+        registerContainer(id, elementRef.current, {
+            strategy,
+            virtual,
+            tree,
+            group,
+        });
+        return () => {
+            unregisterContainer(id);
+        };
+    }, [
+        id,
+        strategy,
+        virtual,
+        tree,
+        group,
+        registerContainer,
+        unregisterContainer,
+    ]);
+
     const value = useMemo(() => ({
+        id: id ?? null,
         items,
         strategy,
         columns,
-    }), [items, strategy, columns]);
+        virtual,
+        tree,
+        group,
+    }), [id, items, strategy, columns, virtual, tree, group]);
 
     const containerStyle = useMemo((): React.CSSProperties => {
         const baseStyle: React.CSSProperties = {
@@ -77,7 +149,7 @@ export function SortableContainer({
 
     return (
         <SortableContainerContext.Provider value={value}>
-            <div className={className} style={containerStyle}>
+            <div ref={elementRef} className={className} style={containerStyle}>
                 {children}
             </div>
         </SortableContainerContext.Provider>
@@ -98,6 +170,75 @@ export function arrayMove<T>(
     return newArray;
 }
 
+/**
+ * Utility function to move several items at once. The items keep their
+ * relative order and are reinserted as a block starting at `toIndex` of the
+ * resulting array (DragEndEvent's `fromIndexes` and `toIndex`).
+ */
+export function arrayMoveMany<T>(
+    array: T[],
+    fromIndexes: number[],
+    toIndex: number,
+): T[] {
+    const moving = new Set(fromIndexes);
+    const moved = [...moving].sort((a, b) => a - b).map((i) => array[i]);
+    const newArray = array.filter((_, i) => !moving.has(i));
+    newArray.splice(toIndex, 0, ...moved);
+    return newArray;
+}
+
+/**
+ * Utility function to flatten a tree into render order. Children of
+ * collapsed items aren't flattened; they stay attached to their parent.
+ */
+export function flattenTree<T>(
+    items: TreeItem<T>[],
+    parentId: string | null = null,
+    depth = 0,
+): FlattenedTreeItem<T>[] {
+    return items.flatMap((item, index) => {
+        const collapsed = !!item.collapsed;
+        const flattened: FlattenedTreeItem<T> = {
+            id: item.id,
+            parentId,
+            depth,
+            index,
+            collapsed,
+            children: collapsed ? item.children : [],
+            data: item.data,
+        };
+        return collapsed
+            ? [flattened]
+            : [flattened, ...flattenTree(item.children, item.id, depth + 1)];
+    });
+}
+
+/**
+ * Utility function to rebuild a tree from flattened items. Siblings keep
+ * their order in the flattened array.
+ */
+export function buildTree<T>(items: FlattenedTreeItem<T>[]): TreeItem<T>[] {
+    const root: TreeItem<T>[] = [];
+    const nodes = new Map<string, TreeItem<T>>();
+
+    for (const { id, parentId, collapsed, children, data } of items) {
+        // Copy the children so dropping into a collapsed item never writes
+        // into the caller's tree
+        const node: TreeItem<T> = {
+            id,
+            children: collapsed ? [...children] : [],
+            ...(collapsed && { collapsed }),
+            data,
+        };
+        nodes.set(id, node);
+
+        const parent = parentId !== null ? nodes.get(parentId) : undefined;
+        (parent ? parent.children : root).push(node);
+    }
+
+    return root;
+}
+
 /**
  * Utility function to insert an item at a specific index
  */
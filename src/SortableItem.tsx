@@ -1,13 +1,25 @@
 import React, { forwardRef, useMemo } from "react";
 import { useSortable } from "./useSortable";
+import type { Modifier } from "./types";
 
 interface SortableItemProps {
     /** Unique identifier for the item */
     id: string;
     /** Index of the item in the list */
     index: number;
+    /** Data delivered with every drag event for this item */
+    data?: unknown;
+    /** Container ID (defaults to the surrounding SortableContainer) */
+    containerId?: string | null;
     /** Whether dragging is disabled for this item */
     disabled?: boolean;
+    /**
+     * CSS selector for a drag handle inside the item. When set, drags only
+     * start on the handle (give it `touch-action: none`).
+     */
+    handle?: string;
+    /** Modifiers for this item, applied after the provider's */
+    modifiers?: Modifier[];
     /** Content to render */
     children: React.ReactNode;
     /** Additional class names */
@@ -18,7 +30,10 @@ interface SortableItemProps {
     render?: (props: {
         isDragging: boolean;
         isOver: boolean;
+        isSelected: boolean;
+        isCollapsed: boolean;
         transform: { x: number; y: number } | null;
+        handleRef: React.RefCallback<HTMLElement>;
         listeners: Record<string, any>;
         attributes: Record<string, any>;
     }) => React.ReactNode;
@@ -31,7 +46,11 @@ interface SortableItemProps {
 export const SortableItem = forwardRef<HTMLDivElement, SortableItemProps>(({
     id,
     index,
+    data,
+    containerId,
     disabled = false,
+    handle,
+    modifiers,
     children,
     className = "",
     style,
@@ -42,11 +61,21 @@ export const SortableItem = forwardRef<HTMLDivElement, SortableItemProps>(({
         handleRef,
         isDragging,
         isOver,
+        isSelected,
+        isCollapsed,
         transform,
         transition,
         attributes,
         listeners,
-    } = useSortable({ id, index, disabled });
+    } = useSortable({
+        id,
+        data,
+        index,
+        containerId,
+        disabled,
+        handleSelector: handle,
+        modifiers,
+    });
 
     const combinedRef = (node: HTMLDivElement | null) => {
         ref(node);
@@ -63,13 +92,28 @@ export const SortableItem = forwardRef<HTMLDivElement, SortableItemProps>(({
             ? `translate3d(${transform.x}px, ${transform.y}px, 0)`
             : undefined,
         transition,
-        opacity: isDragging ? 0.8 : 1,
+        // Selected items dragged along with another one are hidden while
+        // the list closes up around them
+        opacity: isCollapsed ? 0 : isDragging ? 0.8 : 1,
+        pointerEvents: isCollapsed ? "none" : undefined,
         zIndex: isDragging ? 999 : 1,
-        cursor: disabled ? "default" : isDragging ? "grabbing" : "grab",
-        touchAction: "none",
+        cursor: disabled || handle
+            ? "default"
+            : isDragging
+            ? "grabbing"
+            : "grab",
+        touchAction: handle ? undefined : "none",
         userSelect: "none",
         WebkitUserSelect: "none",
-    }), [style, transform, transition, isDragging, disabled]);
+    }), [
+        style,
+        transform,
+        transition,
+        isDragging,
+        isCollapsed,
+        disabled,
+        handle,
+    ]);
 
     if (render) {
         return (
@@ -83,7 +127,10 @@ export const SortableItem = forwardRef<HTMLDivElement, SortableItemProps>(({
                 {render({
                     isDragging,
                     isOver,
+                    isSelected,
+                    isCollapsed,
                     transform,
+                    handleRef,
                     listeners,
                     attributes,
                 })}
@@ -97,7 +144,9 @@ export const SortableItem = forwardRef<HTMLDivElement, SortableItemProps>(({
             style={itemStyle}
             className={`${className} ${
                 isDragging ? "shadow-lg ring-2 ring-blue-400" : ""
-            } ${isOver ? "ring-2 ring-green-400" : ""}`}
+            } ${isOver ? "ring-2 ring-green-400" : ""} ${
+                isSelected && !isDragging ? "ring-2 ring-blue-200" : ""
+            }`}
             {...attributes}
             {...listeners}
         >
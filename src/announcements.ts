@@ -0,0 +1,75 @@
+import type React from "react";
+import type { Announcements } from "./types";
+
+/**
+ * Default screen reader instructions, rendered once per provider and
+ * referenced by every sortable item through aria-describedby.
+ */
+export const defaultScreenReaderInstructions =
+    "To pick up a sortable item, press space or enter. " +
+    "While dragging, use the arrow keys to move the item. " +
+    "Press space or enter again to drop the item in its new position, " +
+    "or press escape to cancel.";
+
+/**
+ * Default English announcements. Positions are reported 1-based.
+ */
+export const defaultAnnouncements: Announcements = {
+    onDragStart({ item }) {
+        if (item.index < 0) {
+            return `Picked up draggable item ${item.id}.`;
+        }
+        return `Picked up sortable item ${item.id}. ` +
+            `Sortable item ${item.id} is in position ${item.index + 1}.`;
+    },
+    onDragOver({ item, overIndex, fromContainerId, toContainerId }) {
+        if (toContainerId !== fromContainerId && toContainerId !== null) {
+            return `Sortable item ${item.id} was moved into position ` +
+                `${overIndex + 1} of list ${toContainerId}.`;
+        }
+        return `Sortable item ${item.id} was moved into position ${
+            overIndex + 1
+        }.`;
+    },
+    onDragEnd(
+        { item, toIndex, fromContainerId, toContainerId, overDroppableId },
+    ) {
+        if (overDroppableId !== null) {
+            return `Item ${item.id} was dropped over ${overDroppableId}.`;
+        }
+        if (item.index < 0) {
+            return `Draggable item ${item.id} was dropped.`;
+        }
+        if (toContainerId !== fromContainerId && toContainerId !== null) {
+            return `Sortable item ${item.id} was dropped at position ` +
+                `${toIndex + 1} of list ${toContainerId}.`;
+        }
+        return `Sortable item ${item.id} was dropped at position ${
+            toIndex + 1
+        }.`;
+    },
+    onDragCancel({ item, fromIndex }) {
+        if (item.index < 0) {
+            return `Dragging was cancelled. Draggable item ${item.id} ` +
+                `was returned to its starting point.`;
+        }
+        return `Sorting was cancelled. Sortable item ${item.id} ` +
+            `was returned to position ${fromIndex + 1}.`;
+    },
+};
+
+/**
+ * Hide content visually while keeping it available to screen readers
+ */
+export const visuallyHidden: React.CSSProperties = {
+    position: "absolute",
+    width: 1,
+    height: 1,
+    margin: -1,
+    padding: 0,
+    border: 0,
+    overflow: "hidden",
+    clip: "rect(0 0 0 0)",
+    clipPath: "inset(100%)",
+    whiteSpace: "nowrap",
+};
@@ -0,0 +1,7 @@
+/**
+ * Whether we're running on Capacitor. Checked on every call rather than at
+ * import time, so importing the library never touches `window`.
+ */
+export function isCapacitor(): boolean {
+    return typeof window !== "undefined" && "Capacitor" in window;
+}
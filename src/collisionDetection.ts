@@ -0,0 +1,163 @@
+import type {
+    CollisionCandidate,
+    CollisionDetection,
+    Position,
+    Rect,
+} from "./types";
+
+function getCenter(rect: Rect): Position {
+    return {
+        x: rect.left + rect.width / 2,
+        y: rect.top + rect.height / 2,
+    };
+}
+
+function getCorners(rect: Rect): Position[] {
+    return [
+        { x: rect.left, y: rect.top },
+        { x: rect.right, y: rect.top },
+        { x: rect.left, y: rect.bottom },
+        { x: rect.right, y: rect.bottom },
+    ];
+}
+
+function getDistance(a: Position, b: Position): number {
+    return Math.sqrt(Math.pow(a.x - b.x, 2) + Math.pow(a.y - b.y, 2));
+}
+
+function isWithin(position: Position, rect: Rect): boolean {
+    return position.x >= rect.left && position.x <= rect.right &&
+        position.y >= rect.top && position.y <= rect.bottom;
+}
+
+/**
+ * Return the candidate with the lowest score
+ */
+function minBy(
+    candidates: CollisionCandidate[],
+    score: (candidate: CollisionCandidate) => number,
+): CollisionCandidate | null {
+    let best: CollisionCandidate | null = null;
+    let bestScore = Infinity;
+
+    for (const candidate of candidates) {
+        const value = score(candidate);
+        if (value < bestScore) {
+            best = candidate;
+            bestScore = value;
+        }
+    }
+
+    return best;
+}
+
+/**
+ * Default strategy: the item under the pointer, otherwise the item in the
+ * pointer's column whose vertical center is closest (within 100px).
+ * Works well for single-column lists.
+ */
+export const defaultCollisionDetection: CollisionDetection = (
+    { pointer, candidates },
+) => {
+    const column = candidates.filter(({ rect }) =>
+        pointer.x >= rect.left && pointer.x <= rect.right
+    );
+
+    const within = column.find(({ rect }) =>
+        pointer.y >= rect.top && pointer.y <= rect.bottom
+    );
+    if (within) return within;
+
+    let closest: CollisionCandidate | null = null;
+    let closestDistance = Infinity;
+    for (const candidate of column) {
+        const distance = Math.abs(pointer.y - getCenter(candidate.rect).y);
+        if (distance < closestDistance) {
+            closest = candidate;
+            closestDistance = distance;
+        }
+    }
+
+    return closest && closestDistance < 100 ? closest : null;
+};
+
+/**
+ * Item whose center is closest to the center of the dragged item
+ * (or the pointer when the dragged rect is unknown).
+ * Good general-purpose choice for grids and horizontal lists.
+ */
+export const closestCenter: CollisionDetection = (
+    { pointer, activeRect, candidates },
+) => {
+    const point = activeRect ? getCenter(activeRect) : pointer;
+    return minBy(
+        candidates,
+        ({ rect }) => getDistance(point, getCenter(rect)),
+    );
+};
+
+/**
+ * Item whose corners are closest to the corners of the dragged item.
+ * Handles items of very different sizes better than closestCenter.
+ */
+export const closestCorners: CollisionDetection = (
+    { pointer, activeRect, candidates },
+) => {
+    const corners = activeRect
+        ? getCorners(activeRect)
+        : [pointer, pointer, pointer, pointer];
+
+    return minBy(candidates, ({ rect }) => {
+        const targetCorners = getCorners(rect);
+        return corners.reduce(
+            (sum, corner, i) => sum + getDistance(corner, targetCorners[i]),
+            0,
+        );
+    });
+};
+
+/**
+ * Item that overlaps the dragged item the most, relative to both sizes.
+ * Falls back to pointerWithin when the dragged rect is unknown.
+ */
+export const rectIntersection: CollisionDetection = (args) => {
+    const { activeRect, candidates } = args;
+    if (!activeRect) return pointerWithin(args);
+
+    let best: CollisionCandidate | null = null;
+    let bestRatio = 0;
+
+    for (const candidate of candidates) {
+        const { rect } = candidate;
+        const width = Math.min(activeRect.right, rect.right) -
+            Math.max(activeRect.left, rect.left);
+        const height = Math.min(activeRect.bottom, rect.bottom) -
+            Math.max(activeRect.top, rect.top);
+        if (width <= 0 || height <= 0) continue;
+
+        const intersection = width * height;
+        const ratio = intersection /
+            (activeRect.width * activeRect.height +
+                rect.width * rect.height - intersection);
+
+        if (ratio > bestRatio) {
+            best = candidate;
+            bestRatio = ratio;
+        }
+    }
+
+    return best;
+};
+
+/**
+ * Item that contains the pointer. When several do (e.g. nested layouts),
+ * the one whose center is closest to the pointer wins.
+ */
+export const pointerWithin: CollisionDetection = (
+    { pointer, candidates },
+) => {
+    return minBy(
+        candidates.filter(({ rect }) => isWithin(pointer, rect)),
+        ({ rect }) => getDistance(pointer, getCenter(rect)),
+    );
+};
@@ -0,0 +1,119 @@
+import { isCapacitor } from "./capacitor";
+import type {
+    HapticPattern,
+    HapticsAdapter,
+    HapticsConfig,
+    HapticsRecord,
+} from "./types";
+
+/**
+ * Default haptic pattern for each drag moment
+ */
+export const defaultHaptics: HapticsConfig = {
+    pickup: "impactMedium",
+    overChange: "impactLight",
+    scrollBoundary: null,
+    drop: "impactMedium",
+    cancel: "impactMedium",
+    invalidDrop: "notificationWarning",
+};
+
+/**
+ * Haptics adapter that plays nothing
+ */
+export const NoHaptics: HapticsAdapter = {
+    trigger() {},
+};
+
+/**
+ * Haptics through `@capacitor/haptics`. Does nothing outside Capacitor.
+ */
+export const CapacitorHaptics: HapticsAdapter = {
+    async trigger(pattern) {
+        if (!isCapacitor()) return;
+
+        const { Haptics, ImpactStyle, NotificationType } = await import(
+            "@capacitor/haptics"
+        );
+        switch (pattern) {
+            case "impactLight":
+                return Haptics.impact({ style: ImpactStyle.Light });
+            case "impactMedium":
+                return Haptics.impact({ style: ImpactStyle.Medium });
+            case "impactHeavy":
+                return Haptics.impact({ style: ImpactStyle.Heavy });
+            case "selectionChanged":
+                // iOS only plays selection changes inside a selection
+                await Haptics.selectionStart();
+                await Haptics.selectionChanged();
+                return Haptics.selectionEnd();
+            case "notificationSuccess":
+                return Haptics.notification({
+                    type: NotificationType.Success,
+                });
+            case "notificationWarning":
+                return Haptics.notification({
+                    type: NotificationType.Warning,
+                });
+            case "notificationError":
+                return Haptics.notification({ type: NotificationType.Error });
+        }
+    },
+};
+
+// Vibration durations in ms (alternating on/off) approximating each pattern
+const VIBRATION_PATTERNS: Record<HapticPattern, number[]> = {
+    impactLight: [10],
+    impactMedium: [20],
+    impactHeavy: [40],
+    selectionChanged: [5],
+    notificationSuccess: [20, 60, 20],
+    notificationWarning: [30, 60, 30],
+    notificationError: [40, 60, 40, 60, 40],
+};
+
+/**
+ * Haptics through the Vibration API (`navigator.vibrate`), for web builds.
+ * Does nothing where vibration isn't supported.
+ */
+export const VibrationHaptics: HapticsAdapter = {
+    trigger(pattern) {
+        if (
+            typeof navigator === "undefined" ||
+            typeof navigator.vibrate !== "function"
+        ) {
+            return;
+        }
+        navigator.vibrate(VIBRATION_PATTERNS[pattern]);
+    },
+};
+
+/**
+ * Haptics through Capacitor when available, otherwise the Vibration API
+ */
+export const CapacitorOrVibrationHaptics: HapticsAdapter = {
+    trigger(pattern, moment) {
+        return isCapacitor()
+            ? CapacitorHaptics.trigger(pattern, moment)
+            : VibrationHaptics.trigger(pattern, moment);
+    },
+};
+
+/**
+ * Haptics adapter that records patterns instead of playing them, for tests
+ */
+export function createHapticsRecorder(): HapticsAdapter & {
+    records: HapticsRecord[];
+    clear: () => void;
+} {
+    const records: HapticsRecord[] = [];
+    return {
+        records,
+        trigger(pattern, moment) {
+            records.push({ moment, pattern });
+        },
+        clear() {
+            records.length = 0;
+        },
+    };
+}
@@ -1,35 +1,124 @@
 // Core exports
 export { DragDropProvider, useDragDropContext } from "./DragDropProvider";
 export { useSortable } from "./useSortable";
+export { useDroppable } from "./useDroppable";
+export { useDraggable } from "./useDraggable";
 export { useAutoScroll } from "./useAutoScroll";
+export { useSelection } from "./useSelection";
+export { useTreeProjection } from "./useTreeProjection";
 export {
     useDragControls,
     useDragDropMonitor,
     useDragState,
 } from "./useDragDropMonitor";
+export {
+    closestCenter,
+    closestCorners,
+    defaultCollisionDetection,
+    pointerWithin,
+    rectIntersection,
+} from "./collisionDetection";
+export {
+    restrictToHorizontalAxis,
+    restrictToParentElement,
+    restrictToScrollContainer,
+    restrictToVerticalAxis,
+    restrictToWindowEdges,
+    snapCenterToCursor,
+    snapToGrid,
+} from "./modifiers";
+export {
+    createSensor,
+    KeyboardSensor,
+    MouseSensor,
+    PointerSensor,
+    TouchSensor,
+} from "./sensors";
+export {
+    defaultAnnouncements,
+    defaultScreenReaderInstructions,
+} from "./announcements";
+export {
+    CapacitorHaptics,
+    CapacitorOrVibrationHaptics,
+    createHapticsRecorder,
+    defaultHaptics,
+    VibrationHaptics,
+} from "./haptics";
+export {
+    createCapacitorPlatform,
+    createServerPlatform,
+    createTestPlatform,
+    createWebPlatform,
+    resolvePlatform,
+} from "./platform";
+export { shallowEqual } from "./store";
 
 // Component exports
 export {
     arrayInsert,
     arrayMove,
+    arrayMoveMany,
     arrayRemove,
+    buildTree,
+    flattenTree,
     SortableContainer,
 } from "./SortableContainer";
 export { SortableItem } from "./SortableItem";
-export { DragOverlay } from "./DragOverlay";
+export { KanbanBoard } from "./KanbanBoard";
+export { defaultDropAnimation, DragOverlay } from "./DragOverlay";
 
 // Type exports
 export type {
+    ActivationConstraint,
+    Announcements,
     AutoScrollConfig,
+    AutoScrollEasing,
+    CollisionCandidate,
+    CollisionDetection,
+    CollisionDetectionArgs,
     DragDropContextConfig,
+    DragDropMonitor,
     DragEndEvent,
     DragItem,
     DragMoveEvent,
     DragOverEvent,
     DragStartEvent,
     DragState,
+    DropAnimation,
+    DropAnimationSideEffectsArgs,
+    EdgeInsets,
+    KeyboardDirection,
+    KeyboardSensorOptions,
+    Modifier,
+    ModifierArgs,
+    Platform,
+    PlatformName,
     Position,
+    FlattenedTreeItem,
+    HapticMoment,
+    HapticPattern,
+    HapticsAdapter,
+    HapticsConfig,
+    HapticsRecord,
+    KanbanCard,
+    KanbanColumn,
+    Rect,
+    Sensor,
+    SensorContext,
+    SensorDescriptor,
+    SensorEventName,
+    SensorListeners,
+    SensorOptions,
     SortableContextValue,
     SortableItemConfig,
+    SortableTreeConfig,
+    SortingStrategy,
+    TestPlatform,
+    TreeItem,
+    TreeProjection,
+    UseDraggableReturn,
+    UseDroppableReturn,
     UseSortableReturn,
+    VirtualListConfig,
 } from "./types";
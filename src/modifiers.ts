@@ -0,0 +1,88 @@
+import type { Modifier, Position, Rect } from "./types";
+
+/**
+ * Clamp a transform so the dragged rect stays inside the bounds
+ */
+function restrictToBounds(
+    transform: Position,
+    rect: Rect | null,
+    bounds: Rect | null,
+): Position {
+    if (!rect || !bounds) return transform;
+
+    const next = { ...transform };
+    if (rect.left + next.x < bounds.left) {
+        next.x = bounds.left - rect.left;
+    } else if (rect.right + next.x > bounds.right) {
+        next.x = bounds.right - rect.right;
+    }
+    if (rect.top + next.y < bounds.top) {
+        next.y = bounds.top - rect.top;
+    } else if (rect.bottom + next.y > bounds.bottom) {
+        next.y = bounds.bottom - rect.bottom;
+    }
+    return next;
+}
+
+/** Only allow vertical movement */
+export const restrictToVerticalAxis: Modifier = ({ transform }) => ({
+    x: 0,
+    y: transform.y,
+});
+
+/** Only allow horizontal movement */
+export const restrictToHorizontalAxis: Modifier = ({ transform }) => ({
+    x: transform.x,
+    y: 0,
+});
+
+/** Keep the dragged item inside its parent element (e.g. an IonCard) */
+export const restrictToParentElement: Modifier = (
+    { transform, activeRect, element },
+) => {
+    const parent = element?.parentElement;
+    return restrictToBounds(
+        transform,
+        activeRect,
+        parent ? parent.getBoundingClientRect() : null,
+    );
+};
+
+/** Keep the dragged item inside the viewport */
+export const restrictToWindowEdges: Modifier = (
+    { transform, activeRect },
+) => {
+    if (typeof window === "undefined") return transform;
+    return restrictToBounds(transform, activeRect, {
+        top: 0,
+        left: 0,
+        right: window.innerWidth,
+        bottom: window.innerHeight,
+        width: window.innerWidth,
+        height: window.innerHeight,
+    });
+};
+
+/** Keep the dragged item inside the visible area of its scroll container */
+export const restrictToScrollContainer: Modifier = (
+    { transform, activeRect, scrollContainerRect },
+) => restrictToBounds(transform, activeRect, scrollContainerRect);
+
+/** Move in steps of `size` pixels */
+export function snapToGrid(size: number): Modifier {
+    return ({ transform }) => ({
+        x: Math.round(transform.x / size) * size,
+        y: Math.round(transform.y / size) * size,
+    });
+}
+
+/** Center the dragged item on the pointer instead of keeping the grab offset */
+export const snapCenterToCursor: Modifier = (
+    { transform, activeRect, offset },
+) => {
+    if (!activeRect || !offset) return transform;
+    return {
+        x: transform.x + offset.x - activeRect.width / 2,
+        y: transform.y + offset.y - activeRect.height / 2,
+    };
+};
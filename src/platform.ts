@@ -0,0 +1,118 @@
+import { isCapacitor } from "./capacitor";
+import {
+    CapacitorHaptics,
+    createHapticsRecorder,
+    NoHaptics,
+} from "./haptics";
+import type { HapticsAdapter, Platform, TestPlatform } from "./types";
+
+function createBrowserPlatform(
+    name: "capacitor" | "web",
+    haptics: HapticsAdapter,
+): Platform {
+    return {
+        name,
+        haptics,
+        now: () => performance.now(),
+        requestAnimationFrame: (callback) =>
+            window.requestAnimationFrame(callback),
+        cancelAnimationFrame: (handle) => window.cancelAnimationFrame(handle),
+        addGlobalListener: (type, listener, options) => {
+            window.addEventListener(type, listener, options);
+            return () => {
+                window.removeEventListener(type, listener, options);
+            };
+        },
+    };
+}
+
+/**
+ * Platform for Capacitor apps: browser APIs plus native haptics
+ */
+export function createCapacitorPlatform(): Platform {
+    return createBrowserPlatform("capacitor", CapacitorHaptics);
+}
+
+/**
+ * Platform for plain browsers. Plays no haptics unless the provider config
+ * sets an adapter (e.g. VibrationHaptics).
+ */
+export function createWebPlatform(): Platform {
+    return createBrowserPlatform("web", NoHaptics);
+}
+
+/**
+ * Platform for server rendering, where nothing ever drags: frames never
+ * run and listeners are never registered
+ */
+export function createServerPlatform(): Platform {
+    return {
+        name: "server",
+        haptics: NoHaptics,
+        now: () => Date.now(),
+        requestAnimationFrame: () => 0,
+        cancelAnimationFrame: () => {},
+        addGlobalListener: () => () => {},
+    };
+}
+
+/**
+ * Platform for unit tests. Animation frames only run on `flushFrames`,
+ * global listeners only receive events passed to `dispatch`, and haptics
+ * are recorded instead of played.
+ */
+export function createTestPlatform(): TestPlatform {
+    let time = 0;
+    let nextHandle = 1;
+    const frames = new Map<number, (time: number) => void>();
+    const listeners = new Map<string, Set<(event: Event) => void>>();
+
+    return {
+        name: "test",
+        haptics: createHapticsRecorder(),
+        now: () => time,
+        requestAnimationFrame(callback) {
+            const handle = nextHandle++;
+            frames.set(handle, callback);
+            return handle;
+        },
+        cancelAnimationFrame(handle) {
+            frames.delete(handle);
+        },
+        addGlobalListener(type, listener) {
+            const typeListeners = listeners.get(type) ?? new Set();
+            typeListeners.add(listener);
+            listeners.set(type, typeListeners);
+            return () => {
+                typeListeners.delete(listener);
+            };
+        },
+        flushFrames(frameTime = time + 1000 / 60) {
+            time = frameTime;
+            // Frames requested while flushing run on the next flush
+            const pending = [...frames.values()];
+            frames.clear();
+            pending.forEach((callback) => callback(time));
+        },
+        dispatch(event) {
+            listeners.get(event.type)?.forEach((listener) => listener(event));
+        },
+    };
+}
+
+let detectedPlatform: Platform | null = null;
+
+/**
+ * Detect the platform on first use: the server when there's no `window`,
+ * Capacitor when its bridge is present, otherwise the web
+ */
+export function resolvePlatform(): Platform {
+    if (!detectedPlatform) {
+        detectedPlatform = typeof window === "undefined"
+            ? createServerPlatform()
+            : isCapacitor()
+            ? createCapacitorPlatform()
+            : createWebPlatform();
+    }
+    return detectedPlatform;
+}
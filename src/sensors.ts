@@ -0,0 +1,279 @@
+import type {
+    ActivationConstraint,
+    KeyboardDirection,
+    KeyboardSensorOptions,
+    Position,
+    Sensor,
+    SensorContext,
+    SensorDescriptor,
+    SensorOptions,
+} from "./types";
+
+interface TrackOptions<E extends Event> {
+    start: Position;
+    constraint: ActivationConstraint;
+    context: SensorContext;
+    moveEvent: string;
+    endEvent: string;
+    cancelEvent?: string;
+    getPosition: (event: E) => Position | null;
+    /** Prevent default on moves once active (stops native touch scrolling) */
+    preventScroll?: boolean;
+}
+
+/**
+ * Apply an activation constraint and forward window events to the drag.
+ * Shared by the pointer, mouse and touch sensors.
+ */
+function trackActivation<E extends Event>({
+    start,
+    constraint,
+    context,
+    moveEvent,
+    endEvent,
+    cancelEvent,
+    getPosition,
+    preventScroll = false,
+}: TrackOptions<E>): () => void {
+    const { delay, distance, tolerance } = constraint;
+    let activated = false;
+    let timeout: ReturnType<typeof setTimeout> | null = null;
+
+    const activate = () => {
+        if (activated) return;
+        activated = true;
+        if (timeout) {
+            clearTimeout(timeout);
+            timeout = null;
+        }
+        context.activate(start);
+    };
+
+    const handleMove = (event: Event) => {
+        const position = getPosition(event as E);
+        if (!position) return;
+
+        if (!activated) {
+            const moved = Math.sqrt(
+                Math.pow(position.x - start.x, 2) +
+                    Math.pow(position.y - start.y, 2),
+            );
+
+            if (distance !== undefined && moved >= distance) {
+                activate();
+            } else if (
+                delay !== undefined && tolerance !== undefined &&
+                moved > tolerance
+            ) {
+                // Moved too far during the delay: treat it as a scroll
+                teardown();
+                return;
+            }
+
+            if (!activated) return;
+        }
+
+        if (preventScroll && event.cancelable) {
+            event.preventDefault();
+        }
+        context.move(position);
+    };
+
+    const handleEnd = () => {
+        teardown();
+        if (activated) context.end(false);
+    };
+
+    const handleCancel = () => {
+        teardown();
+        if (activated) context.end(true);
+    };
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+        if (event.key === "Escape") handleCancel();
+    };
+
+    const teardown = () => {
+        if (timeout) {
+            clearTimeout(timeout);
+            timeout = null;
+        }
+        removeListeners.forEach((removeListener) => removeListener());
+    };
+
+    const { platform } = context;
+    const removeListeners = [
+        platform.addGlobalListener(moveEvent, handleMove, { passive: false }),
+        platform.addGlobalListener(endEvent, handleEnd),
+        platform.addGlobalListener(
+            "keydown",
+            (event) => handleKeyDown(event as KeyboardEvent),
+        ),
+    ];
+    if (cancelEvent) {
+        removeListeners.push(
+            platform.addGlobalListener(cancelEvent, handleCancel),
+        );
+    }
+
+    if (delay) {
+        timeout = setTimeout(activate, delay);
+    } else if (distance === undefined) {
+        activate();
+    }
+
+    return teardown;
+}
+
+/**
+ * Pointer events (mouse, touch and pen). The default sensor.
+ */
+export const PointerSensor: Sensor<SensorOptions> = {
+    eventName: "onPointerDown",
+    activator(event, options, context) {
+        const e = event as React.PointerEvent;
+        if (!context.canActivate(e.target)) return;
+
+        // Only handle primary button or touch
+        if (e.pointerType === "mouse" && e.button !== 0) return;
+
+        // Prevent text selection and context menu
+        e.preventDefault();
+
+        return trackActivation<PointerEvent>({
+            start: { x: e.clientX, y: e.clientY },
+            constraint: options.activationConstraint ??
+                context.defaultActivationConstraint,
+            context,
+            moveEvent: "pointermove",
+            endEvent: "pointerup",
+            cancelEvent: "pointercancel",
+            getPosition: (move) => ({ x: move.clientX, y: move.clientY }),
+        });
+    },
+};
+
+/**
+ * Mouse events only, e.g. for instant drags on desktop next to a
+ * long-press TouchSensor.
+ */
+export const MouseSensor: Sensor<SensorOptions> = {
+    eventName: "onMouseDown",
+    activator(event, options, context) {
+        const e = event as React.MouseEvent;
+        if (!context.canActivate(e.target) || e.button !== 0) return;
+
+        // Prevent text selection
+        e.preventDefault();
+
+        return trackActivation<MouseEvent>({
+            start: { x: e.clientX, y: e.clientY },
+            constraint: options.activationConstraint ??
+                context.defaultActivationConstraint,
+            context,
+            moveEvent: "mousemove",
+            endEvent: "mouseup",
+            getPosition: (move) => ({ x: move.clientX, y: move.clientY }),
+        });
+    },
+};
+
+/**
+ * Touch events only, for WebViews with unreliable pointer events.
+ */
+export const TouchSensor: Sensor<SensorOptions> = {
+    eventName: "onTouchStart",
+    activator(event, options, context) {
+        const e = event as React.TouchEvent;
+        if (e.touches.length !== 1 || !context.canActivate(e.target)) return;
+
+        const touch = e.touches[0];
+        return trackActivation<TouchEvent>({
+            start: { x: touch.clientX, y: touch.clientY },
+            constraint: options.activationConstraint ??
+                context.defaultActivationConstraint,
+            context,
+            moveEvent: "touchmove",
+            endEvent: "touchend",
+            cancelEvent: "touchcancel",
+            getPosition: (move) =>
+                move.touches.length === 1
+                    ? { x: move.touches[0].clientX, y: move.touches[0].clientY }
+                    : null,
+            preventScroll: true,
+        });
+    },
+};
+
+const ARROW_DIRECTIONS: Record<string, KeyboardDirection> = {
+    ArrowUp: "up",
+    ArrowDown: "down",
+    ArrowLeft: "left",
+    ArrowRight: "right",
+};
+
+/**
+ * Keyboard dragging: pick up, move with the arrow keys, drop or cancel.
+ */
+export const KeyboardSensor: Sensor<KeyboardSensorOptions> = {
+    eventName: "onKeyDown",
+    activator(event, options, context) {
+        const e = event as React.KeyboardEvent;
+        const {
+            startKeys = [" ", "Enter"],
+            endKeys = [" ", "Enter"],
+            cancelKeys = ["Escape"],
+        } = options;
+
+        // Ignore keys pressed in nested inputs and buttons
+        if (e.target !== e.currentTarget || !startKeys.includes(e.key)) return;
+
+        e.preventDefault();
+        const activationEvent = e.nativeEvent;
+        const rect = context.element.getBoundingClientRect();
+        context.activate({
+            x: rect.left + rect.width / 2,
+            y: rect.top + rect.height / 2,
+        });
+
+        const handleKeyDown = (keyEvent: KeyboardEvent) => {
+            // The activating event is still bubbling up to the window
+            if (keyEvent === activationEvent) return;
+
+            if (endKeys.includes(keyEvent.key)) {
+                keyEvent.preventDefault();
+                teardown();
+                context.end(false);
+            } else if (cancelKeys.includes(keyEvent.key)) {
+                keyEvent.preventDefault();
+                teardown();
+                context.end(true);
+            } else if (ARROW_DIRECTIONS[keyEvent.key]) {
+                keyEvent.preventDefault();
+                context.step(ARROW_DIRECTIONS[keyEvent.key]);
+            }
+        };
+
+        const teardown = context.platform.addGlobalListener(
+            "keydown",
+            (event) => handleKeyDown(event as KeyboardEvent),
+        );
+        return teardown;
+    },
+};
+
+/**
+ * Pair a sensor with its options for the provider's `sensors` config
+ */
+export function createSensor<O>(
+    sensor: Sensor<O>,
+    options?: O,
+): SensorDescriptor<O> {
+    const resolved = options ?? ({} as O);
+    return {
+        eventName: sensor.eventName,
+        options: resolved,
+        activate: (event, context) =>
+            sensor.activator(event, resolved, context),
+    };
+}
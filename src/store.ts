@@ -0,0 +1,90 @@
+import { useRef, useSyncExternalStore } from "react";
+
+/**
+ * Minimal subscribable store. Drag state lives here instead of React state
+ * so pointer moves only re-render the components whose selection changed.
+ */
+export interface Store<S> {
+    getState: () => S;
+    setState: (update: S | ((prev: S) => S)) => void;
+    subscribe: (listener: () => void) => () => void;
+}
+
+export function createStore<S>(initialState: S): Store<S> {
+    let state = initialState;
+    const listeners = new Set<() => void>();
+
+    return {
+        getState: () => state,
+        setState: (update) => {
+            const next = typeof update === "function"
+                ? (update as (prev: S) => S)(state)
+                : update;
+            if (Object.is(next, state)) return;
+
+            state = next;
+            listeners.forEach((listener) => listener());
+        },
+        subscribe: (listener) => {
+            listeners.add(listener);
+            return () => {
+                listeners.delete(listener);
+            };
+        },
+    };
+}
+
+/**
+ * Compare two values key by key, for selectors that return objects
+ */
+export function shallowEqual<T>(a: T, b: T): boolean {
+    if (Object.is(a, b)) return true;
+    if (
+        typeof a !== "object" || a === null ||
+        typeof b !== "object" || b === null
+    ) {
+        return false;
+    }
+
+    const keysA = Object.keys(a) as (keyof T)[];
+    if (keysA.length !== Object.keys(b).length) return false;
+    return keysA.every((key) =>
+        Object.prototype.hasOwnProperty.call(b, key) &&
+        Object.is(a[key], b[key])
+    );
+}
+
+/**
+ * Subscribe to a slice of a store. The component only re-renders when the
+ * selected value changes according to `isEqual`.
+ */
+export function useStoreSelector<S, R>(
+    store: Store<S>,
+    selector: (state: S) => R,
+    isEqual: (a: R, b: R) => boolean = Object.is,
+): R {
+    // Keep equal selections referentially stable between snapshots
+    const cacheRef = useRef<
+        { state: S; selector: (state: S) => R; selection: R } | null
+    >(null);
+
+    const getSnapshot = () => {
+        const state = store.getState();
+        const cached = cacheRef.current;
+        if (cached && cached.state === state && cached.selector === selector) {
+            return cached.selection;
+        }
+
+        const selection = selector(state);
+        cacheRef.current = {
+            state,
+            selector,
+            selection: cached && isEqual(cached.selection, selection)
+                ? cached.selection
+                : selection,
+        };
+        return cacheRef.current.selection;
+    };
+
+    return useSyncExternalStore(store.subscribe, getSnapshot, getSnapshot);
+}
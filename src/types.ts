@@ -5,8 +5,88 @@ export interface Position {
     y: number;
 }
 
+export interface Rect {
+    top: number;
+    left: number;
+    right: number;
+    bottom: number;
+    width: number;
+    height: number;
+}
+
+/** Layout of a sortable list */
+export type SortingStrategy = "vertical" | "horizontal" | "grid";
+
+/**
+ * Layout of a virtualized container. Items are positioned from the
+ * container's leading edge, which spans the full virtual size, and only
+ * some of them are mounted at a time.
+ */
+export interface VirtualListConfig {
+    /** Total number of items, mounted or not */
+    count: number;
+    /** Size in pixels along the list axis of items that aren't mounted */
+    estimateSize: number | ((index: number) => number);
+    /** Space between items in pixels (default: 0) */
+    gap?: number;
+}
+
+export interface TreeItem<T = unknown> {
+    id: string;
+    children: TreeItem<T>[];
+    /** Collapsed items hide their children, which move along with them */
+    collapsed?: boolean;
+    data?: T;
+}
+
+export interface FlattenedTreeItem<T = unknown> {
+    id: string;
+    parentId: string | null;
+    depth: number;
+    /** Position among its siblings */
+    index: number;
+    collapsed: boolean;
+    /** Children of a collapsed item (not flattened); empty otherwise */
+    children: TreeItem<T>[];
+    data?: T;
+}
+
+/**
+ * Tree layout of a vertical container. Dragging horizontally projects the
+ * depth the item lands at; the dragged item's descendants move with it.
+ */
+export interface SortableTreeConfig {
+    /** Items from flattenTree, in render order */
+    items: FlattenedTreeItem[];
+    /** Horizontal drag distance in pixels per depth level (default: 24) */
+    indentationWidth?: number;
+    /** Deepest allowed depth */
+    maxDepth?: number;
+}
+
+/** Where the dragged item of a tree container would land */
+export interface TreeProjection {
+    depth: number;
+    minDepth: number;
+    maxDepth: number;
+    parentId: string | null;
+}
+
+export interface KanbanCard<T = unknown> {
+    id: string;
+    data?: T;
+}
+
+export interface KanbanColumn<C = unknown, T = unknown> {
+    id: string;
+    /** Cards of the column, in order */
+    cards: KanbanCard<T>[];
+    data?: C;
+}
+
 export interface DragItem<T = unknown> {
     id: string;
+    /** Index in the sortable list, -1 for free-form draggables */
     index: number;
     data: T;
 }
@@ -14,22 +94,333 @@ export interface DragItem<T = unknown> {
 export interface DragState {
     isDragging: boolean;
     draggedId: string | null;
+    /** Index of the dragged item, null for free-form draggables */
     draggedIndex: number | null;
     overIndex: number | null;
+    /** Container the dragged item was picked up from */
+    draggedContainerId: string | null;
+    /** Container the dragged item is currently over */
+    overContainerId: string | null;
+    /** Drop zone (registered with useDroppable) under the pointer */
+    overDroppableId: string | null;
     initialPosition: Position | null;
     currentPosition: Position | null;
     offset: Position | null;
+    /** True while the drop animation plays, before the drag is finished */
+    isDropping: boolean;
+    /**
+     * IDs moving together, in index order, including draggedId. When the
+     * dragged item is selected this holds every selected item of its
+     * container, otherwise just the dragged item.
+     */
+    draggedIds: string[];
+    /** Indexes of draggedIds when the drag started */
+    draggedIndexes: number[];
+}
+
+/**
+ * Curve mapping how far into the edge zone the pointer is (0 at the zone's
+ * inner boundary, 1 at the edge) to a fraction of the maximum speed
+ */
+export type AutoScrollEasing =
+    | "linear"
+    | "easeIn"
+    | "easeOut"
+    | "easeInOut"
+    | ((progress: number) => number);
+
+/** Distances in pixels from each edge */
+export interface EdgeInsets {
+    top: number;
+    right: number;
+    bottom: number;
+    left: number;
 }
 
 export interface AutoScrollConfig {
     /** Enable auto-scrolling (default: true) */
     enabled: boolean;
-    /** Threshold in pixels from edge to start scrolling (default: 80) */
-    threshold: number;
-    /** Maximum scroll speed in pixels per frame (default: 15) */
+    /**
+     * Size of the edge zone that starts scrolling: pixels, or a percentage
+     * of the container's visible size such as "20%" (default: 80)
+     */
+    threshold: number | `${number}%`;
+    /** Maximum scroll speed in pixels per second (default: 900) */
     maxSpeed: number;
-    /** Acceleration factor (default: 1.5) */
-    acceleration: number;
+    /** Speed curve across the edge zone (default: "easeIn") */
+    easing: AutoScrollEasing;
+    /**
+     * Time in ms the pointer has to stay in an edge zone before scrolling
+     * reaches full speed; 0 scrolls at full speed right away (default: 400)
+     */
+    rampUpDuration: number;
+    /**
+     * Extra space kept clear at each viewport edge (e.g. under a custom
+     * fixed toolbar), on top of the safe areas, the keyboard and
+     * IonContent's header and footer offsets, which are detected (default:
+     * none)
+     */
+    insets: Partial<EdgeInsets>;
+}
+
+export interface CollisionCandidate {
+    id: string;
+    index: number;
+    containerId: string | null;
+    /**
+     * Client rect of the candidate's slot as laid out when the drag started
+     * (before displacement), adjusted for scrolling since
+     */
+    rect: Rect;
+}
+
+export interface CollisionDetectionArgs {
+    /** Current pointer position */
+    pointer: Position;
+    /** Rect of the dragged item at its current drag position */
+    activeRect: Rect | null;
+    /**
+     * Registered items that can be dragged over, including the dragged
+     * item's own slot
+     */
+    candidates: CollisionCandidate[];
+}
+
+/**
+ * Strategy that resolves which item the dragged item is over.
+ * Returns null when nothing qualifies.
+ */
+export type CollisionDetection = (
+    args: CollisionDetectionArgs,
+) => CollisionCandidate | null;
+
+/** Haptic patterns, after the Capacitor Haptics API */
+export type HapticPattern =
+    | "impactLight"
+    | "impactMedium"
+    | "impactHeavy"
+    | "selectionChanged"
+    | "notificationSuccess"
+    | "notificationWarning"
+    | "notificationError";
+
+/** Moments of the drag lifecycle that can play a haptic pattern */
+export type HapticMoment =
+    /** A drag started */
+    | "pickup"
+    /** The over index, container or drop zone changed */
+    | "overChange"
+    /** Auto-scroll reached the end of a scroll container */
+    | "scrollBoundary"
+    /** The item was dropped */
+    | "drop"
+    /** The drag was cancelled */
+    | "cancel"
+    /** A free-form drag was released outside every drop zone */
+    | "invalidDrop";
+
+/** Pattern played at each moment; null plays nothing */
+export type HapticsConfig = Record<HapticMoment, HapticPattern | null>;
+
+/**
+ * Plays haptic patterns. Swap it to use another haptics API, fall back to
+ * the Vibration API on the web, or record patterns in tests.
+ */
+export interface HapticsAdapter {
+    /** Play a pattern; failures are ignored */
+    trigger: (
+        pattern: HapticPattern,
+        moment: HapticMoment,
+    ) => void | Promise<void>;
+}
+
+/** Pattern played by a haptics recorder */
+export interface HapticsRecord {
+    moment: HapticMoment;
+    pattern: HapticPattern;
+}
+
+export type PlatformName = "capacitor" | "web" | "test" | "server";
+
+/**
+ * Environment services the library uses instead of touching `window`
+ * directly, so it can run under server rendering and in unit tests
+ */
+export interface Platform {
+    name: PlatformName;
+    /** Haptics adapter used unless the provider config sets one */
+    haptics: HapticsAdapter;
+    /** Current time in ms, on the same clock as animation frame timestamps */
+    now: () => number;
+    requestAnimationFrame: (callback: (time: number) => void) => number;
+    cancelAnimationFrame: (handle: number) => void;
+    /**
+     * Listen to an event on the window. Returns a function removing the
+     * listener.
+     */
+    addGlobalListener: (
+        type: string,
+        listener: (event: Event) => void,
+        options?: AddEventListenerOptions,
+    ) => () => void;
+}
+
+/** Platform driven by hand in unit tests */
+export interface TestPlatform extends Platform {
+    haptics: HapticsAdapter & { records: HapticsRecord[]; clear: () => void };
+    /**
+     * Run the pending animation frames, advancing the clock to `time`
+     * (default: one 60Hz frame later)
+     */
+    flushFrames: (time?: number) => void;
+    /** Deliver an event to the global listeners of its type */
+    dispatch: (event: Event) => void;
+}
+
+/**
+ * Screen reader messages for the drag lifecycle.
+ * Return undefined to skip an announcement.
+ */
+export interface Announcements<T = unknown> {
+    onDragStart: (event: DragStartEvent<T>) => string | undefined;
+    onDragOver: (event: DragOverEvent<T>) => string | undefined;
+    onDragEnd: (event: DragEndEvent<T>) => string | undefined;
+    onDragCancel: (event: DragEndEvent<T>) => string | undefined;
+}
+
+export interface ModifierArgs {
+    /** Movement since the drag started */
+    transform: Position;
+    /** Rect of the dragged item when the drag started */
+    activeRect: Rect | null;
+    /** Pointer position relative to the dragged item's top-left corner */
+    offset: Position | null;
+    /** The dragged element */
+    element: HTMLElement | null;
+    /** Rect of the auto-scroll container */
+    scrollContainerRect: Rect | null;
+}
+
+/**
+ * Transforms drag movement before hit-testing and rendering.
+ * Modifiers run in order, each receiving the previous result.
+ */
+export type Modifier = (args: ModifierArgs) => Position;
+
+export interface DropAnimationSideEffectsArgs {
+    /** The source element of the dragged item */
+    active: HTMLElement | null;
+    /** The overlay element being animated */
+    overlay: HTMLElement;
+    /** Whether the drag was cancelled */
+    cancelled: boolean;
+}
+
+export interface DropAnimation {
+    /** Animation duration in ms (default: 250) */
+    duration?: number;
+    /** CSS easing function (default: "ease") */
+    easing?: string;
+    /**
+     * Runs when the drop animation starts, e.g. to fade the source item
+     * back in. May return a cleanup function that runs once it finishes.
+     */
+    sideEffects?: (
+        args: DropAnimationSideEffectsArgs,
+    ) => void | (() => void);
+}
+
+/**
+ * When a pointer/touch drag activates. With a delay, moving `distance`
+ * pixels activates early and moving more than `tolerance` pixels aborts.
+ * Without either, the drag activates immediately.
+ */
+export interface ActivationConstraint {
+    /** Delay in ms before the drag starts */
+    delay?: number;
+    /** Distance in pixels the pointer must move before the drag starts */
+    distance?: number;
+    /** Movement in pixels allowed during the delay before aborting */
+    tolerance?: number;
+}
+
+export type KeyboardDirection = "up" | "down" | "left" | "right";
+
+/** Listener props a sensor can attach to draggable elements */
+export type SensorEventName =
+    | "onPointerDown"
+    | "onMouseDown"
+    | "onTouchStart"
+    | "onKeyDown";
+
+/** Bridge between a sensor and the draggable element it activated on */
+export interface SensorContext {
+    /** The draggable element */
+    element: HTMLElement;
+    /** Activation constraint derived from activationDelay/activationDistance */
+    defaultActivationConstraint: ActivationConstraint;
+    /** Whether a pointer/touch starting on the target may start a drag */
+    canActivate: (target: EventTarget | null) => boolean;
+    /** Start the drag from a position */
+    activate: (position: Position) => void;
+    /** Move the drag to a position */
+    move: (position: Position) => void;
+    /** Move the drag one step in a direction (keyboard) */
+    step: (direction: KeyboardDirection) => void;
+    /** End the drag */
+    end: (cancelled?: boolean) => void;
+    /** Platform to register global listeners with */
+    platform: Platform;
+}
+
+/**
+ * Input method that starts and drives drags. The activator runs when its
+ * event fires on an idle draggable element; it returns a teardown function
+ * when it handles the event (stopping later sensors), or nothing to pass.
+ */
+export interface Sensor<O = SensorOptions> {
+    eventName: SensorEventName;
+    activator: (
+        event: React.SyntheticEvent,
+        options: O,
+        context: SensorContext,
+    ) => (() => void) | void;
+}
+
+export interface SensorOptions {
+    /** Overrides the provider's activationDelay/activationDistance */
+    activationConstraint?: ActivationConstraint;
+}
+
+export interface KeyboardSensorOptions {
+    /** Keys that pick up an item (default: Space and Enter) */
+    startKeys?: string[];
+    /** Keys that drop the item (default: Space and Enter) */
+    endKeys?: string[];
+    /** Keys that cancel the drag (default: Escape) */
+    cancelKeys?: string[];
+}
+
+/** Listeners created for the configured sensors */
+export interface SensorListeners {
+    onPointerDown?: (e: React.PointerEvent) => void;
+    onMouseDown?: (e: React.MouseEvent) => void;
+    onTouchStart?: (e: React.TouchEvent) => void;
+    onKeyDown?: (e: React.KeyboardEvent) => void;
+}
+
+/**
+ * A sensor paired with its options, as created by createSensor. `activate`
+ * runs the sensor's activator with those options, so descriptors of sensors
+ * with different options share one list.
+ */
+export interface SensorDescriptor<O = unknown> {
+    eventName: SensorEventName;
+    options: O;
+    activate: (
+        event: React.SyntheticEvent,
+        context: SensorContext,
+    ) => (() => void) | void;
 }
 
 export interface DragDropContextConfig {
@@ -39,17 +430,37 @@ export interface DragDropContextConfig {
     activationDelay?: number;
     /** Distance in pixels before drag starts */
     activationDistance?: number;
-    /** Enable haptic feedback on Capacitor (default: true) */
+    /** Input sensors (default: PointerSensor and KeyboardSensor) */
+    sensors?: SensorDescriptor[];
+    /** Enable haptic feedback (default: true) */
     hapticFeedback?: boolean;
+    /** Haptic pattern for each drag moment (override some or all) */
+    haptics?: Partial<HapticsConfig>;
+    /** Plays haptic patterns (default: the platform's) */
+    hapticsAdapter?: HapticsAdapter;
+    /** Environment services (default: detected on first render) */
+    platform?: Platform;
     /** Lock axis during drag ('x' | 'y' | null) */
     lockAxis?: "x" | "y" | null;
+    /** Modifiers applied to every drag, before per-item modifiers */
+    modifiers?: Modifier[];
+    /** Strategy used to find the item under the dragged item */
+    collisionDetection?: CollisionDetection;
+    /** Screen reader announcements (override to customize or localize) */
+    announcements?: Partial<Announcements>;
+    /** Instructions read when a sortable item receives focus */
+    screenReaderInstructions?: string;
 }
 
-export interface SortableItemConfig {
+export interface SortableItemConfig<T = unknown> {
     /** Unique identifier for the item */
     id: string;
+    /** Data delivered with every drag event for this item */
+    data?: T;
     /** Index of the item in the list */
     index: number;
+    /** ID of the SortableContainer the item belongs to */
+    containerId?: string | null;
     /** Whether the item is disabled */
     disabled?: boolean;
     /** Custom drag handle selector */
@@ -69,8 +480,29 @@ export interface DragMoveEvent<T = unknown> {
 
 export interface DragEndEvent<T = unknown> {
     item: DragItem<T>;
+    /** Every moved item with its original index, in index order */
+    items: DragItem<T>[];
     fromIndex: number;
+    /** Original indexes of every moved item, in order */
+    fromIndexes: number[];
+    /**
+     * Index the moved items start at in the target container, counted after
+     * removing them from the source (an insertion index when moving across
+     * containers)
+     */
     toIndex: number;
+    /** Container the item was dragged from */
+    fromContainerId: string | null;
+    /** Container the item was dropped into */
+    toContainerId: string | null;
+    /** Drop zone (registered with useDroppable) the item was dropped on */
+    overDroppableId: string | null;
+    /** Data of the drop zone the item was dropped on */
+    overDroppableData: unknown;
+    /** New parent of the item (tree containers only) */
+    parentId?: string | null;
+    /** New depth of the item (tree containers only) */
+    depth?: number;
     cancelled: boolean;
     /** Alias for fromIndex - the index of the dragged item */
     activeIndex: number;
@@ -81,7 +513,20 @@ export interface DragEndEvent<T = unknown> {
 export interface DragOverEvent<T = unknown> {
     item: DragItem<T>;
     overIndex: number;
+    /** Item under the pointer, or null when hovering an empty container area */
     overItem: DragItem<T> | null;
+    /** Container the item was dragged from */
+    fromContainerId: string | null;
+    /** Container currently under the pointer */
+    toContainerId: string | null;
+}
+
+/** Callbacks for observing the drag lifecycle */
+export interface DragDropMonitor<T = unknown> {
+    onDragStart?: (event: DragStartEvent<T>) => void;
+    onDragMove?: (event: DragMoveEvent<T>) => void;
+    onDragOver?: (event: DragOverEvent<T>) => void;
+    onDragEnd?: (event: DragEndEvent<T>) => void;
 }
 
 export interface SortableContextValue {
@@ -89,11 +534,48 @@ export interface SortableContextValue {
     activeId: string | null;
     activeIndex: number | null;
     overIndex: number | null;
-    registerItem: (id: string, index: number, element: HTMLElement) => void;
+    registerItem: (
+        id: string,
+        index: number,
+        element: HTMLElement,
+        containerId?: string | null,
+        data?: unknown,
+    ) => void;
     unregisterItem: (id: string) => void;
     getItemIndex: (id: string) => number;
 }
 
+export interface UseDroppableReturn {
+    /** Ref to attach to the drop zone element */
+    ref: React.RefCallback<HTMLElement>;
+    /** Whether a dragged item is over this drop zone */
+    isOver: boolean;
+    /** Whether any item is being dragged */
+    isDragging: boolean;
+    /** ID of the dragged item */
+    draggedId: string | null;
+}
+
+export interface UseDraggableReturn {
+    /** Ref to attach to the draggable element */
+    ref: React.RefCallback<HTMLElement>;
+    /** Whether this element is currently being dragged */
+    isDragging: boolean;
+    /** Transform to apply during drag */
+    transform: { x: number; y: number } | null;
+    /** Attributes to spread on the element */
+    attributes: {
+        role: string;
+        tabIndex: number;
+        "aria-roledescription": string;
+        "aria-describedby": string;
+        "aria-disabled": boolean;
+        "data-draggable-id": string;
+    };
+    /** Listeners for drag events */
+    listeners: SensorListeners;
+}
+
 export interface UseSortableReturn {
     /** Ref to attach to the sortable element */
     ref: React.RefCallback<HTMLElement>;
@@ -103,6 +585,10 @@ export interface UseSortableReturn {
     isDragging: boolean;
     /** Whether another item is being dragged over this one */
     isOver: boolean;
+    /** Whether this item is selected for multi-item drags */
+    isSelected: boolean;
+    /** Whether this item is moving along with another selected item */
+    isCollapsed: boolean;
     /** Transform to apply during drag */
     transform: { x: number; y: number } | null;
     /** Transition style for animations */
@@ -116,9 +602,5 @@ export interface UseSortableReturn {
         "data-sortable-id": string;
     };
     /** Listeners for drag events */
-    listeners: {
-        onPointerDown?: (e: React.PointerEvent) => void;
-        onTouchStart?: (e: React.TouchEvent) => void;
-        onKeyDown?: (e: React.KeyboardEvent) => void;
-    };
+    listeners: SensorListeners;
 }
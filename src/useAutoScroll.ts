@@ -1,5 +1,12 @@
 import { useCallback, useEffect, useRef } from "react";
-import type { AutoScrollConfig, Position } from "./types";
+import { resolvePlatform } from "./platform";
+import type {
+    AutoScrollConfig,
+    AutoScrollEasing,
+    EdgeInsets,
+    Platform,
+    Position,
+} from "./types";
 
 // Type for IonContent element with getScrollElement method
 interface IonContentElement extends HTMLElement {
@@ -9,32 +16,186 @@ interface IonContentElement extends HTMLElement {
 const DEFAULT_CONFIG: AutoScrollConfig = {
     enabled: true,
     threshold: 80,
-    maxSpeed: 15,
-    acceleration: 1.5,
+    maxSpeed: 900,
+    easing: "easeIn",
+    rampUpDuration: 400,
+    insets: {},
 };
 
+const NO_INSETS: EdgeInsets = { top: 0, right: 0, bottom: 0, left: 0 };
+
+const EASINGS: Record<string, (progress: number) => number> = {
+    linear: (t) => t,
+    easeIn: (t) => t * t,
+    easeOut: (t) => t * (2 - t),
+    easeInOut: (t) => t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2,
+};
+
+const resolveEasing = (easing: AutoScrollEasing) =>
+    typeof easing === "function" ? easing : EASINGS[easing] ?? EASINGS.linear;
+
+// Longest frame step, so a stalled tab doesn't jump on its next frame
+const MAX_FRAME_TIME = 100;
+
 interface ScrollableElement {
     element: HTMLElement | null;
     scrollElement: HTMLElement | Element | null;
 }
 
+type Axis = "x" | "y";
+
+interface EdgeEntry {
+    scrollElement: Element;
+    direction: number;
+    time: number;
+}
+
+/**
+ * Whether an element can scroll along an axis. The document scrolls
+ * whenever it overflows; other elements also need an auto/scroll overflow.
+ */
+function canScrollAlong(element: Element, axis: Axis): boolean {
+    const overflows = axis === "x"
+        ? element.scrollWidth > element.clientWidth
+        : element.scrollHeight > element.clientHeight;
+    if (!overflows || element === document.documentElement) return overflows;
+
+    const style = window.getComputedStyle(element);
+    const overflow = axis === "x" ? style.overflowX : style.overflowY;
+    return overflow === "auto" || overflow === "scroll";
+}
+
+/**
+ * Resolve Ionic's safe area variables (`--ion-safe-area-*`, usually
+ * `env(safe-area-inset-*)`) to pixels through a hidden probe element
+ */
+function measureSafeArea(): EdgeInsets {
+    if (typeof document === "undefined" || !document.body) return NO_INSETS;
+
+    const probe = document.createElement("div");
+    probe.style.cssText = [
+        "position: fixed",
+        "visibility: hidden",
+        "pointer-events: none",
+        "padding-top: var(--ion-safe-area-top, 0px)",
+        "padding-right: var(--ion-safe-area-right, 0px)",
+        "padding-bottom: var(--ion-safe-area-bottom, 0px)",
+        "padding-left: var(--ion-safe-area-left, 0px)",
+    ].join(";");
+    document.body.appendChild(probe);
+    const style = window.getComputedStyle(probe);
+    const insets = {
+        top: parseFloat(style.paddingTop) || 0,
+        right: parseFloat(style.paddingRight) || 0,
+        bottom: parseFloat(style.paddingBottom) || 0,
+        left: parseFloat(style.paddingLeft) || 0,
+    };
+    probe.remove();
+    return insets;
+}
+
+/**
+ * Part of the viewport actually on screen. The visual viewport shrinks when
+ * the on-screen keyboard opens (or the page is pinch-zoomed).
+ */
+function getVisibleViewport() {
+    const viewport = window.visualViewport;
+    return viewport
+        ? {
+            top: viewport.offsetTop,
+            left: viewport.offsetLeft,
+            bottom: viewport.offsetTop + viewport.height,
+            right: viewport.offsetLeft + viewport.width,
+        }
+        : {
+            top: 0,
+            left: 0,
+            bottom: window.innerHeight,
+            right: window.innerWidth,
+        };
+}
+
+/**
+ * Space IonContent's content area spends under a translucent header or
+ * footer (fullscreen content) and the keyboard, which Ionic publishes as
+ * custom properties on the element
+ */
+function getContentInsets(element: HTMLElement | null): EdgeInsets {
+    if (element?.tagName !== "ION-CONTENT") return NO_INSETS;
+
+    const style = window.getComputedStyle(element);
+    const read = (name: string) =>
+        parseFloat(style.getPropertyValue(name)) || 0;
+    return {
+        top: read("--offset-top"),
+        right: 0,
+        bottom: read("--offset-bottom") + read("--keyboard-offset"),
+        left: 0,
+    };
+}
+
+// Number of ancestors, so nested containers sort before the ones around them
+function getDepth(element: HTMLElement | null): number {
+    let depth = 0;
+    let current = element?.parentElement;
+    while (current) {
+        depth++;
+        current = current.parentElement;
+    }
+    return depth;
+}
+
 /**
  * Hook to handle auto-scrolling during drag operations.
  * Specifically designed to work with IonContent's shadow DOM.
+ *
+ * Every scrollable ancestor of the dragged element and of the related
+ * elements (e.g. other lists it can move to) takes part, innermost first:
+ * along each axis the pointer scrolls the innermost container it is over
+ * and near the edge of, falling through to outer ones once it hits its
+ * bounds.
  */
 export function useAutoScroll(
     config: Partial<AutoScrollConfig> = {},
-    onScrollDelta?: (delta: { x: number; y: number }) => void,
+    onScrollDelta?: (
+        delta: { x: number; y: number },
+        element: HTMLElement,
+    ) => void,
+    onScrollBoundary?: () => void,
+    platform: Platform = resolvePlatform(),
 ) {
     const mergedConfig = { ...DEFAULT_CONFIG, ...config };
+    // Read the platform when scrolling rather than recreating callbacks
+    const platformRef = useRef(platform);
+    platformRef.current = platform;
+    // Innermost scroll container
     const scrollableRef = useRef<ScrollableElement>({
         element: null,
         scrollElement: null,
     });
+    // Every scroll container around the dragged and related elements,
+    // innermost first
+    const scrollChainRef = useRef<ScrollableElement[]>([]);
     const animationFrameRef = useRef<number | null>(null);
     const isScrollingRef = useRef(false);
+    // Speed in pixels per second
     const scrollSpeedRef = useRef({ x: 0, y: 0 });
-    const lastScrollPositionRef = useRef({ x: 0, y: 0 });
+    // Container scrolled along each axis on the next frame
+    const scrollTargetsRef = useRef<Record<Axis, ScrollableElement | null>>({
+        x: null,
+        y: null,
+    });
+    // When the pointer entered the edge zone it's scrolling, per axis
+    const edgeEntryRef = useRef<Record<Axis, EdgeEntry | null>>({
+        x: null,
+        y: null,
+    });
+    const lastPositionRef = useRef<Position | null>(null);
+    const lastFrameTimeRef = useRef<number | null>(null);
+    // Sub-pixel distance not scrolled yet
+    const remainderRef = useRef({ x: 0, y: 0 });
+    // Safe area insets, measured when a drag starts
+    const safeAreaRef = useRef<EdgeInsets>(NO_INSETS);
 
     /**
      * Find the scrollable element, including IonContent's shadow DOM scroll container
@@ -75,15 +236,8 @@ export function useAutoScroll(
                 }
 
                 // Check for regular scrollable elements
-                const style = window.getComputedStyle(current);
-                const overflowY = style.overflowY;
-                const overflowX = style.overflowX;
-
                 if (
-                    (overflowY === "auto" || overflowY === "scroll" ||
-                        overflowX === "auto" || overflowX === "scroll") &&
-                    (current.scrollHeight > current.clientHeight ||
-                        current.scrollWidth > current.clientWidth)
+                    canScrollAlong(current, "x") || canScrollAlong(current, "y")
                 ) {
                     return { element: current, scrollElement: current };
                 }
@@ -101,177 +255,361 @@ export function useAutoScroll(
     );
 
     /**
-     * Initialize the scroll container for a given element
+     * Resolve IonContent's scroll element, which is only available async
      */
-    const initScrollContainer = useCallback(
-        async (element: HTMLElement | null) => {
-            const result = findScrollableElement(element);
-
-            // Handle IonContent async scroll element
+    const resolveScrollElement = useCallback(
+        async (result: ScrollableElement): Promise<ScrollableElement> => {
             if (
-                result.element?.tagName === "ION-CONTENT" &&
-                !result.scrollElement
+                result.element?.tagName !== "ION-CONTENT" ||
+                result.scrollElement
             ) {
-                try {
-                    const ionContent = result.element as IonContentElement;
-                    const scrollElement = await ionContent.getScrollElement();
-                    scrollableRef.current = {
-                        element: result.element,
-                        scrollElement,
-                    };
-                    // Track initial scroll position
-                    lastScrollPositionRef.current = {
-                        x: scrollElement.scrollLeft,
-                        y: scrollElement.scrollTop,
-                    };
-                } catch {
-                    scrollableRef.current = result;
-                }
-            } else {
-                scrollableRef.current = result;
-                // Track initial scroll position
-                if (
-                    result.scrollElement && "scrollTop" in result.scrollElement
-                ) {
-                    lastScrollPositionRef.current = {
-                        x: (result.scrollElement as HTMLElement).scrollLeft,
-                        y: (result.scrollElement as HTMLElement).scrollTop,
-                    };
-                }
+                return result;
+            }
+
+            try {
+                const ionContent = result.element as IonContentElement;
+                const scrollElement = await ionContent.getScrollElement();
+                return { element: result.element, scrollElement };
+            } catch {
+                return result;
             }
         },
-        [findScrollableElement],
+        [],
     );
 
     /**
-     * Calculate scroll speed based on pointer position
+     * Initialize the scroll containers around a given element and around
+     * related elements the drag can move into
      */
-    const calculateScrollSpeed = useCallback(
-        (position: Position): { x: number; y: number } => {
-            const scrollElement = scrollableRef.current.scrollElement;
-            if (!scrollElement || !mergedConfig.enabled) return { x: 0, y: 0 };
+    const initScrollContainer = useCallback(
+        async (element: HTMLElement | null, related: HTMLElement[] = []) => {
+            // Walk up to the document, collecting each scroll container
+            const collectChain = async (start: HTMLElement | null) => {
+                const chain: ScrollableElement[] = [];
+                let current = start;
+                while (current) {
+                    const result = await resolveScrollElement(
+                        findScrollableElement(current),
+                    );
+                    if (!result.element || !result.scrollElement) break;
+
+                    chain.push(result);
+                    if (result.element === document.documentElement) break;
+                    current = result.element.parentElement;
+                }
+                return chain;
+            };
+
+            const [own, ...others] = await Promise.all(
+                [element, ...related].map(collectChain),
+            );
+
+            // Merge the chains without duplicates, deepest first so nested
+            // containers are tried before the ones around them
+            const seen = new Set<HTMLElement>();
+            const chain: ScrollableElement[] = [];
+            for (const scrollable of [own, ...others].flat()) {
+                if (seen.has(scrollable.element!)) continue;
+                seen.add(scrollable.element!);
+                chain.push(scrollable);
+            }
+            chain.sort((a, b) => getDepth(b.element) - getDepth(a.element));
+
+            scrollChainRef.current = chain;
+            scrollableRef.current = own[0] ?? {
+                element: null,
+                scrollElement: null,
+            };
+            safeAreaRef.current = measureSafeArea();
+        },
+        [findScrollableElement, resolveScrollElement],
+    );
 
-            const htmlElement = scrollElement as HTMLElement;
-            const rect = htmlElement.getBoundingClientRect?.() ||
+    /**
+     * Area of a scroll container the user can actually see: clamped to the
+     * on-screen viewport minus safe areas and configured insets, and without
+     * the parts of IonContent under a translucent header, footer or the
+     * keyboard
+     */
+    const getVisibleArea = useCallback(
+        ({ element, scrollElement }: ScrollableElement) => {
+            const rect = scrollElement!.getBoundingClientRect?.() ||
                 {
                     top: 0,
                     left: 0,
                     bottom: window.innerHeight,
                     right: window.innerWidth,
                 };
+            const viewport = getVisibleViewport();
+            const safeArea = safeAreaRef.current;
+            const insets = { ...NO_INSETS, ...mergedConfig.insets };
+            const content = getContentInsets(element);
 
-            let speedX = 0;
-            let speedY = 0;
-            const { threshold, maxSpeed, acceleration } = mergedConfig;
-
-            // Use the visible area of the scroll container (clamped to viewport)
-            const visibleTop = Math.max(0, rect.top);
-            const visibleBottom = Math.min(window.innerHeight, rect.bottom);
-            const visibleLeft = Math.max(0, rect.left);
-            const visibleRight = Math.min(window.innerWidth, rect.right);
+            return {
+                top: Math.max(
+                    viewport.top + safeArea.top + insets.top,
+                    rect.top + content.top,
+                ),
+                left: Math.max(
+                    viewport.left + safeArea.left + insets.left,
+                    rect.left + content.left,
+                ),
+                bottom: Math.min(
+                    viewport.bottom - safeArea.bottom - insets.bottom,
+                    rect.bottom - content.bottom,
+                ),
+                right: Math.min(
+                    viewport.right - safeArea.right - insets.right,
+                    rect.right - content.right,
+                ),
+            };
+        },
+        [mergedConfig],
+    );
 
-            // Check if we can actually scroll in each direction
-            const canScrollUp = htmlElement.scrollTop > 0;
-            const canScrollDown =
-                htmlElement.scrollTop <
-                    (htmlElement.scrollHeight - htmlElement.clientHeight);
-            const canScrollLeft = htmlElement.scrollLeft > 0;
-            const canScrollRight =
-                htmlElement.scrollLeft <
-                    (htmlElement.scrollWidth - htmlElement.clientWidth);
-
-            // Top edge - check distance from the visible top of the scroll container
-            const distanceFromTop = position.y - visibleTop;
-            if (distanceFromTop < threshold && canScrollUp) {
-                // Use max(0, distance) for intensity calc but allow triggering even when negative
-                const intensity = distanceFromTop <= 0
-                    ? 1
-                    : 1 - (distanceFromTop / threshold);
-                speedY = -Math.min(
-                    maxSpeed,
-                    Math.max(0.1, intensity) * maxSpeed * acceleration,
-                );
+    /**
+     * Speed in pixels per second a container scrolls at along an axis for a
+     * pointer position, before ramp-up. 0 when the pointer isn't over the
+     * container or near an edge it can scroll towards.
+     */
+    const getEdgeSpeed = useCallback(
+        (
+            scrollable: ScrollableElement,
+            position: Position,
+            axis: Axis,
+        ): number => {
+            const { threshold, maxSpeed, easing } = mergedConfig;
+            const scrollElement = scrollable.scrollElement!;
+
+            // Edge zones start at the visible edges of the container
+            const visible = getVisibleArea(scrollable);
+            const start = axis === "x" ? visible.left : visible.top;
+            const end = axis === "x" ? visible.right : visible.bottom;
+            const pointer = axis === "x" ? position.x : position.y;
+            const zone = typeof threshold === "string"
+                ? (parseFloat(threshold) / 100) * Math.max(0, end - start)
+                : threshold;
+            if (zone <= 0) return 0;
+
+            // The pointer has to be over the container: within it across
+            // the axis, and no more than an edge zone past it along the
+            // axis (e.g. over a translucent header)
+            const cross = axis === "x" ? position.y : position.x;
+            const crossStart = axis === "x" ? visible.top : visible.left;
+            const crossEnd = axis === "x" ? visible.bottom : visible.right;
+            if (
+                cross < crossStart || cross > crossEnd ||
+                pointer < start - zone || pointer > end + zone
+            ) {
+                return 0;
             }
 
-            // Bottom edge
-            const distanceFromBottom = visibleBottom - position.y;
-            if (distanceFromBottom < threshold && canScrollDown) {
-                const intensity = distanceFromBottom <= 0
-                    ? 1
-                    : 1 - (distanceFromBottom / threshold);
-                speedY = Math.min(
-                    maxSpeed,
-                    Math.max(0.1, intensity) * maxSpeed * acceleration,
-                );
-            }
+            // Check if we can actually scroll in each direction
+            const scrolled = axis === "x"
+                ? scrollElement.scrollLeft
+                : scrollElement.scrollTop;
+            const maxScroll = axis === "x"
+                ? scrollElement.scrollWidth - scrollElement.clientWidth
+                : scrollElement.scrollHeight - scrollElement.clientHeight;
+
+            // Full speed at (or past) the edge, easing off towards the
+            // inner boundary of the zone
+            const ease = resolveEasing(easing);
+            const speedFor = (distance: number) => {
+                const progress = Math.min(1, Math.max(0, 1 - distance / zone));
+                return maxSpeed * Math.min(1, Math.max(0, ease(progress)));
+            };
 
-            // Left edge
-            const distanceFromLeft = position.x - visibleLeft;
-            if (distanceFromLeft < threshold && canScrollLeft) {
-                const intensity = distanceFromLeft <= 0
-                    ? 1
-                    : 1 - (distanceFromLeft / threshold);
-                speedX = -Math.min(
-                    maxSpeed,
-                    Math.max(0.1, intensity) * maxSpeed * acceleration,
-                );
+            // Top/left edge - distance from the visible start of the container
+            const distanceFromStart = pointer - start;
+            if (distanceFromStart < zone && scrolled > 0) {
+                return -speedFor(distanceFromStart);
             }
 
-            // Right edge
-            const distanceFromRight = visibleRight - position.x;
-            if (distanceFromRight < threshold && canScrollRight) {
-                const intensity = distanceFromRight <= 0
-                    ? 1
-                    : 1 - (distanceFromRight / threshold);
-                speedX = Math.min(
-                    maxSpeed,
-                    Math.max(0.1, intensity) * maxSpeed * acceleration,
-                );
+            // Bottom/right edge
+            const distanceFromEnd = end - pointer;
+            if (distanceFromEnd < zone && scrolled < maxScroll) {
+                return speedFor(distanceFromEnd);
             }
 
-            return { x: speedX, y: speedY };
+            return 0;
         },
-        [mergedConfig],
+        [mergedConfig, getVisibleArea],
     );
 
     /**
-     * Perform the scroll animation and notify about scroll delta
+     * Calculate scroll speed based on pointer position, picking the
+     * container scrolled along each axis. Speed ramps up with the time the
+     * pointer has spent in that container's edge zone.
      */
-    const performScroll = useCallback(() => {
-        const scrollElement = scrollableRef.current.scrollElement;
-        if (!scrollElement || !isScrollingRef.current) return;
+    const calculateScrollSpeed = useCallback(
+        (position: Position, time: number): { x: number; y: number } => {
+            const speed = { x: 0, y: 0 };
+            const targets: Record<Axis, ScrollableElement | null> = {
+                x: null,
+                y: null,
+            };
+            const { rampUpDuration } = mergedConfig;
+
+            // Containers the pointer is inside go first, so a neighbouring
+            // list it's just past the edge of doesn't take over
+            const isInside = (scrollable: ScrollableElement) => {
+                const visible = getVisibleArea(scrollable);
+                return position.x >= visible.left &&
+                    position.x <= visible.right &&
+                    position.y >= visible.top && position.y <= visible.bottom;
+            };
+            const chain = scrollChainRef.current;
+            const ordered = [
+                ...chain.filter(isInside),
+                ...chain.filter((scrollable) => !isInside(scrollable)),
+            ];
+
+            for (const axis of ["x", "y"] as const) {
+                for (const scrollable of ordered) {
+                    const scrollElement = scrollable.scrollElement!;
+                    const edgeSpeed = getEdgeSpeed(scrollable, position, axis);
+                    if (edgeSpeed === 0) continue;
+
+                    // Restart the ramp when scrolling another container or
+                    // the other way
+                    const direction = Math.sign(edgeSpeed);
+                    let entry = edgeEntryRef.current[axis];
+                    if (
+                        !entry || entry.scrollElement !== scrollElement ||
+                        entry.direction !== direction
+                    ) {
+                        entry = { scrollElement, direction, time };
+                        edgeEntryRef.current[axis] = entry;
+                    }
 
-        const { x, y } = scrollSpeedRef.current;
+                    // Frame timestamps can predate the pointer event that
+                    // started the ramp, so never let it go negative
+                    const ramp = rampUpDuration > 0
+                        ? Math.max(
+                            0,
+                            Math.min(1, (time - entry.time) / rampUpDuration),
+                        )
+                        : 1;
+                    speed[axis] = edgeSpeed * ramp;
+                    targets[axis] = scrollable;
+                    break;
+                }
 
-        if (x !== 0 || y !== 0) {
-            if ("scrollBy" in scrollElement) {
-                const htmlElement = scrollElement as HTMLElement;
-                const beforeScrollX = htmlElement.scrollLeft;
-                const beforeScrollY = htmlElement.scrollTop;
+                if (!targets[axis]) edgeEntryRef.current[axis] = null;
+            }
 
-                htmlElement.scrollBy({ left: x, top: y });
+            scrollTargetsRef.current = targets;
+            return speed;
+        },
+        [mergedConfig, getVisibleArea, getEdgeSpeed],
+    );
 
-                // Calculate actual scroll delta (might be less if hitting bounds)
-                const actualDeltaX = htmlElement.scrollLeft - beforeScrollX;
-                const actualDeltaY = htmlElement.scrollTop - beforeScrollY;
+    /**
+     * Perform the scroll animation and notify about scroll delta. Speeds are
+     * recomputed every frame so the ramp-up progresses and scrolling falls
+     * through to outer containers while the pointer stands still.
+     */
+    const performScroll = useCallback((time: number) => {
+        const position = lastPositionRef.current;
+        if (!isScrollingRef.current || !position) {
+            animationFrameRef.current = null;
+            return;
+        }
 
-                // Notify about scroll delta so drag position can compensate
-                if (
-                    (actualDeltaX !== 0 || actualDeltaY !== 0) && onScrollDelta
-                ) {
-                    onScrollDelta({ x: actualDeltaX, y: actualDeltaY });
-                }
+        const { x, y } = calculateScrollSpeed(position, time);
+        scrollSpeedRef.current = { x, y };
+        const { x: targetX, y: targetY } = scrollTargetsRef.current;
 
-                lastScrollPositionRef.current = {
-                    x: htmlElement.scrollLeft,
-                    y: htmlElement.scrollTop,
-                };
+        if (!targetX && !targetY) {
+            isScrollingRef.current = false;
+            animationFrameRef.current = null;
+            lastFrameTimeRef.current = null;
+            return;
+        }
+
+        // Move by speed times the time since the last frame, so scrolling
+        // is as fast at 120Hz as at 60Hz
+        const elapsed = lastFrameTimeRef.current !== null
+            ? Math.min(MAX_FRAME_TIME, time - lastFrameTimeRef.current)
+            : 1000 / 60;
+        lastFrameTimeRef.current = time;
+
+        // Carry sub-pixel distances over to later frames
+        const remainder = remainderRef.current;
+        remainder.x += (x * elapsed) / 1000;
+        remainder.y += (y * elapsed) / 1000;
+        const stepX = Math.trunc(remainder.x);
+        const stepY = Math.trunc(remainder.y);
+        remainder.x -= stepX;
+        remainder.y -= stepY;
+
+        // Scroll each container along the axes it was picked for
+        const scrollBy = (
+            scrollable: ScrollableElement | null,
+            left: number,
+            top: number,
+        ) => {
+            const scrollElement = scrollable?.scrollElement;
+            if (!scrollable?.element || !scrollElement) return;
+            if (left === 0 && top === 0) return;
+
+            const beforeScrollX = scrollElement.scrollLeft;
+            const beforeScrollY = scrollElement.scrollTop;
+
+            scrollElement.scrollBy({ left, top });
+
+            // Calculate actual scroll delta (might be less if hitting bounds)
+            const actualDeltaX = scrollElement.scrollLeft - beforeScrollX;
+            const actualDeltaY = scrollElement.scrollTop - beforeScrollY;
+
+            // Notify about scroll delta so drag position can compensate
+            if (
+                (actualDeltaX !== 0 || actualDeltaY !== 0) && onScrollDelta
+            ) {
+                onScrollDelta(
+                    { x: actualDeltaX, y: actualDeltaY },
+                    scrollable.element,
+                );
             }
-            animationFrameRef.current = requestAnimationFrame(performScroll);
+
+            // Report when this step reached the end of the container
+            const reachedBound = (
+                step: number,
+                delta: number,
+                scrolled: number,
+                maxScroll: number,
+            ) => step !== 0 && delta !== 0 &&
+                (step < 0 ? scrolled <= 0 : scrolled >= maxScroll);
+            if (
+                onScrollBoundary && (
+                    reachedBound(
+                        left,
+                        actualDeltaX,
+                        scrollElement.scrollLeft,
+                        scrollElement.scrollWidth - scrollElement.clientWidth,
+                    ) ||
+                    reachedBound(
+                        top,
+                        actualDeltaY,
+                        scrollElement.scrollTop,
+                        scrollElement.scrollHeight - scrollElement.clientHeight,
+                    )
+                )
+            ) {
+                onScrollBoundary();
+            }
+        };
+        if (targetX && targetX === targetY) {
+            scrollBy(targetX, stepX, stepY);
         } else {
-            animationFrameRef.current = null;
+            scrollBy(targetX, stepX, 0);
+            scrollBy(targetY, 0, stepY);
         }
-    }, [onScrollDelta]);
+
+        animationFrameRef.current =
+            platformRef.current.requestAnimationFrame(performScroll);
+    }, [calculateScrollSpeed, onScrollDelta, onScrollBoundary]);
 
     /**
      * Update scroll based on current pointer position
@@ -279,13 +617,22 @@ export function useAutoScroll(
     const updateScroll = useCallback((position: Position) => {
         if (!mergedConfig.enabled) return;
 
-        const speed = calculateScrollSpeed(position);
-        scrollSpeedRef.current = speed;
-
-        if ((speed.x !== 0 || speed.y !== 0) && !animationFrameRef.current) {
+        lastPositionRef.current = position;
+        scrollSpeedRef.current = calculateScrollSpeed(
+            position,
+            platformRef.current.now(),
+        );
+
+        // Keep the loop running while in an edge zone, even before the
+        // ramp-up has built any speed
+        const { x: targetX, y: targetY } = scrollTargetsRef.current;
+        const inEdgeZone = targetX !== null || targetY !== null;
+        if (inEdgeZone && !animationFrameRef.current) {
             isScrollingRef.current = true;
-            animationFrameRef.current = requestAnimationFrame(performScroll);
-        } else if (speed.x === 0 && speed.y === 0) {
+            lastFrameTimeRef.current = null;
+            animationFrameRef.current =
+                platformRef.current.requestAnimationFrame(performScroll);
+        } else if (!inEdgeZone) {
             isScrollingRef.current = false;
         }
     }, [mergedConfig.enabled, calculateScrollSpeed, performScroll]);
@@ -296,9 +643,14 @@ export function useAutoScroll(
     const stopScroll = useCallback(() => {
         isScrollingRef.current = false;
         scrollSpeedRef.current = { x: 0, y: 0 };
+        edgeEntryRef.current = { x: null, y: null };
+        lastPositionRef.current = null;
+        lastFrameTimeRef.current = null;
+        remainderRef.current = { x: 0, y: 0 };
 
         if (animationFrameRef.current) {
-            cancelAnimationFrame(animationFrameRef.current);
+            const handle = animationFrameRef.current;
+            platformRef.current.cancelAnimationFrame(handle);
             animationFrameRef.current = null;
         }
     }, []);
@@ -315,5 +667,6 @@ export function useAutoScroll(
         updateScroll,
         stopScroll,
         scrollableRef,
+        scrollChainRef,
     };
 }
@@ -1,42 +1,76 @@
-import { useCallback } from "react";
-import { useDragDropContext } from "./DragDropProvider";
+import { useCallback, useEffect, useRef } from "react";
+import { useDragDropContext, useDragSelector } from "./DragDropProvider";
+import { shallowEqual } from "./store";
 import type {
+    DragDropMonitor,
     DragEndEvent,
     DragMoveEvent,
     DragOverEvent,
     DragStartEvent,
+    DragState,
 } from "./types";
 
-interface UseDragDropMonitorOptions {
-    onDragStart?: (event: DragStartEvent) => void;
-    onDragMove?: (event: DragMoveEvent) => void;
-    onDragEnd?: (event: DragEndEvent) => void;
-    onDragOver?: (event: DragOverEvent) => void;
-}
+type UseDragDropMonitorOptions<T = unknown> = DragDropMonitor<T>;
 
 /**
  * Hook to monitor drag and drop events without being a draggable item.
  * Useful for updating external state based on drag operations.
+ * Any number of components can monitor the same provider.
  */
-export function useDragDropMonitor(_options?: UseDragDropMonitorOptions) {
+export function useDragDropMonitor<T = unknown>(
+    options?: UseDragDropMonitorOptions<T>,
+) {
     const context = useDragDropContext();
+    const { subscribe } = context;
 
-    return {
-        isDragging: context.state.isDragging,
-        draggedId: context.state.draggedId,
-        draggedIndex: context.state.draggedIndex,
-        overIndex: context.state.overIndex,
-        currentPosition: context.state.currentPosition,
-    };
+    // Keep the latest callbacks without resubscribing on every render
+    const optionsRef = useRef(options);
+    useEffect(() => {
+        optionsRef.current = options;
+    }, [options]);
+
+    useEffect(() => {
+        const monitor: DragDropMonitor = {
+            onDragStart: (event) =>
+                optionsRef.current?.onDragStart?.(event as DragStartEvent<T>),
+            onDragMove: (event) =>
+                optionsRef.current?.onDragMove?.(event as DragMoveEvent<T>),
+            onDragOver: (event) =>
+                optionsRef.current?.onDragOver?.(event as DragOverEvent<T>),
+            onDragEnd: (event) =>
+                optionsRef.current?.onDragEnd?.(event as DragEndEvent<T>),
+        };
+        return subscribe(monitor);
+    }, [subscribe]);
+
+    return useDragSelector((state) => ({
+        isDragging: state.isDragging,
+        draggedId: state.draggedId,
+        draggedIndex: state.draggedIndex,
+        overIndex: state.overIndex,
+        currentPosition: state.currentPosition,
+    }), shallowEqual);
 }
 
 /**
  * Hook to get the current drag state.
  * Lighter weight than useDragDropMonitor when you don't need callbacks.
+ * Pass a selector to re-render only when the selected value changes;
+ * selectors returning objects should pass `shallowEqual` as `isEqual`.
  */
-export function useDragState() {
-    const { state } = useDragDropContext();
-    return state;
+export function useDragState(): DragState;
+export function useDragState<R>(
+    selector: (state: DragState) => R,
+    isEqual?: (a: R, b: R) => boolean,
+): R;
+export function useDragState<R>(
+    selector?: (state: DragState) => R,
+    isEqual?: (a: R, b: R) => boolean,
+) {
+    return useDragSelector(
+        selector ?? ((state: DragState) => state as unknown as R),
+        isEqual,
+    );
 }
 
 /**
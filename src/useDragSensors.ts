@@ -0,0 +1,125 @@
+import { useCallback, useEffect, useMemo, useRef } from "react";
+import { useDragDropContext } from "./DragDropProvider";
+import type {
+    KeyboardDirection,
+    Position,
+    SensorContext,
+    SensorEventName,
+    SensorListeners,
+} from "./types";
+
+interface UseDragSensorsOptions {
+    /** The draggable element */
+    elementRef: React.MutableRefObject<HTMLElement | null>;
+    /** Whether activation is disabled */
+    disabled: boolean;
+    /** Whether this element's drag is in progress */
+    isDragging: boolean;
+    /** Whether a pointer/touch starting on the target may activate a drag */
+    canActivate?: (target: EventTarget | null) => boolean;
+    /** Start the drag from a position */
+    onActivate: (position: Position) => void;
+    /** Move the drag one step in a direction (keyboard) */
+    onStep: (direction: KeyboardDirection) => void;
+}
+
+/**
+ * Internal hook shared by useSortable and useDraggable.
+ * Builds element listeners for the provider's sensors and tears down the
+ * active sensor when the drag ends or the element unmounts.
+ */
+export function useDragSensors({
+    elementRef,
+    disabled,
+    isDragging,
+    canActivate,
+    onActivate,
+    onStep,
+}: UseDragSensorsOptions): SensorListeners {
+    const { store, config, updateDrag, endDrag } = useDragDropContext();
+
+    const teardownRef = useRef<(() => void) | null>(null);
+
+    // Sensors outlive the render that activated them, so route their calls
+    // through the latest callbacks
+    const latestRef = useRef({ canActivate, onActivate, onStep, updateDrag });
+    useEffect(() => {
+        latestRef.current = { canActivate, onActivate, onStep, updateDrag };
+    }, [canActivate, onActivate, onStep, updateDrag]);
+
+    const teardown = useCallback(() => {
+        teardownRef.current?.();
+        teardownRef.current = null;
+    }, []);
+
+    // Tear down the sensor when the drag ends (drop, cancel or controls)
+    const wasDraggingRef = useRef(false);
+    useEffect(() => {
+        if (wasDraggingRef.current && !isDragging) {
+            teardown();
+        }
+        wasDraggingRef.current = isDragging;
+    }, [isDragging, teardown]);
+
+    // Cleanup on unmount, unless this element's drag is still running (e.g.
+    // a virtualized row scrolled out of view): the sensor then tears itself
+    // down when the drag ends
+    const isDraggingRef = useRef(isDragging);
+    isDraggingRef.current = isDragging;
+    useEffect(() => () => {
+        if (!isDraggingRef.current) teardown();
+    }, [teardown]);
+
+    const handleEvent = useCallback((
+        eventName: SensorEventName,
+        event: React.SyntheticEvent,
+    ) => {
+        const element = elementRef.current;
+        if (disabled || store.getState().isDragging || !element) return;
+
+        const context: SensorContext = {
+            element,
+            defaultActivationConstraint: {
+                delay: config.activationDelay,
+                distance: config.activationDistance,
+            },
+            canActivate: (target) =>
+                latestRef.current.canActivate?.(target) ?? true,
+            activate: (position) => latestRef.current.onActivate(position),
+            move: (position) => latestRef.current.updateDrag(position),
+            step: (direction) => latestRef.current.onStep(direction),
+            end: (cancelled) => endDrag(cancelled),
+            platform: config.platform,
+        };
+
+        for (const sensor of config.sensors) {
+            if (sensor.eventName !== eventName) continue;
+
+            const sensorTeardown = sensor.activate(event, context);
+            if (sensorTeardown) {
+                teardown();
+                teardownRef.current = sensorTeardown;
+                return;
+            }
+        }
+    }, [
+        elementRef,
+        disabled,
+        store,
+        config.activationDelay,
+        config.activationDistance,
+        config.sensors,
+        config.platform,
+        endDrag,
+        teardown,
+    ]);
+
+    return useMemo(() => {
+        const listeners: SensorListeners = {};
+        for (const { eventName } of config.sensors) {
+            listeners[eventName] = (event: React.SyntheticEvent) =>
+                handleEvent(eventName, event);
+        }
+        return listeners;
+    }, [config.sensors, handleEvent]);
+}
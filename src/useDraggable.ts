@@ -0,0 +1,118 @@
+import { useCallback, useMemo, useRef } from "react";
+import { useDragDropContext, useDragSelector } from "./DragDropProvider";
+import { useStoreSelector } from "./store";
+import { useDragSensors } from "./useDragSensors";
+import type {
+    KeyboardDirection,
+    Modifier,
+    Position,
+    UseDraggableReturn,
+} from "./types";
+
+interface UseDraggableOptions<T = unknown> {
+    /** Unique identifier for the draggable element */
+    id: string;
+    /** Data delivered with every drag event for this element */
+    data?: T;
+    /** Whether dragging is disabled */
+    disabled?: boolean;
+    /** Modifiers for this element, applied after the provider's */
+    modifiers?: Modifier[];
+    /** Distance in pixels moved per arrow key press (default: 10) */
+    keyboardStep?: number;
+}
+
+/**
+ * Hook for free-form dragging without sorting.
+ * Uses the provider's activation, auto-scroll, haptics and events, and can
+ * be dropped on zones registered with useDroppable.
+ */
+export function useDraggable<T = unknown>({
+    id,
+    data,
+    disabled = false,
+    modifiers,
+    keyboardStep = 10,
+}: UseDraggableOptions<T>): UseDraggableReturn {
+    const { store, scrollStore, startDrag, updateDrag, descriptionId } =
+        useDragDropContext();
+
+    const elementRef = useRef<HTMLElement | null>(null);
+
+    // Only this element's drag re-renders it
+    const isDragging = useDragSelector((state) => state.draggedId === id);
+    const currentPosition = useDragSelector((state) =>
+        state.draggedId === id ? state.currentPosition : null
+    );
+    const initialPosition = useDragSelector((state) =>
+        state.draggedId === id ? state.initialPosition : null
+    );
+    const scrollOffset = useStoreSelector(
+        scrollStore,
+        (offset) => isDragging ? offset : null,
+    );
+
+    const handleActivate = useCallback((position: Position) => {
+        if (elementRef.current) {
+            startDrag(id, null, position, elementRef.current, {
+                data,
+                modifiers,
+            });
+        }
+    }, [id, data, modifiers, startDrag]);
+
+    const handleStep = useCallback((direction: KeyboardDirection) => {
+        const position = store.getState().currentPosition;
+        if (!position) return;
+        const { x, y } = position;
+        updateDrag(
+            direction === "up"
+                ? { x, y: y - keyboardStep }
+                : direction === "down"
+                ? { x, y: y + keyboardStep }
+                : direction === "left"
+                ? { x: x - keyboardStep, y }
+                : { x: x + keyboardStep, y },
+        );
+    }, [store, keyboardStep, updateDrag]);
+
+    const listeners = useDragSensors({
+        elementRef,
+        disabled,
+        isDragging,
+        onActivate: handleActivate,
+        onStep: handleStep,
+    });
+
+    // Follow the pointer, compensating for auto-scroll
+    const transform = useMemo(() => {
+        if (!currentPosition || !initialPosition || !scrollOffset) {
+            return null;
+        }
+        return {
+            x: currentPosition.x - initialPosition.x + scrollOffset.x,
+            y: currentPosition.y - initialPosition.y + scrollOffset.y,
+        };
+    }, [currentPosition, initialPosition, scrollOffset]);
+
+    const ref = useCallback((node: HTMLElement | null) => {
+        elementRef.current = node;
+    }, []);
+
+    const attributes = useMemo(() => ({
+        role: "button",
+        tabIndex: disabled ? -1 : 0,
+        "aria-roledescription": "draggable",
+        "aria-describedby": descriptionId,
+        "aria-disabled": disabled,
+        "data-draggable-id": id,
+    }), [id, disabled, descriptionId]);
+
+    return {
+        ref,
+        isDragging,
+        transform,
+        attributes,
+        listeners,
+    };
+}
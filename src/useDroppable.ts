@@ -0,0 +1,61 @@
+import { useCallback, useEffect, useRef } from "react";
+import { useDragDropContext, useDragSelector } from "./DragDropProvider";
+import { shallowEqual } from "./store";
+import type { UseDroppableReturn } from "./types";
+
+interface UseDroppableOptions<T = unknown> {
+    /** Unique identifier for the drop zone */
+    id: string;
+    /** Data delivered on DragEndEvent when an item is dropped here */
+    data?: T;
+    /** Whether the drop zone ignores dragged items */
+    disabled?: boolean;
+}
+
+/**
+ * Hook to register an arbitrary drop zone, such as a trash bin or a folder
+ * tile. Drops are reported through `overDroppableId` on DragEndEvent.
+ */
+export function useDroppable<T = unknown>({
+    id,
+    data,
+    disabled = false,
+}: UseDroppableOptions<T>): UseDroppableReturn {
+    const { registerDroppable, unregisterDroppable } = useDragDropContext();
+    const { isOver, isDragging, draggedId } = useDragSelector((state) => ({
+        isOver: !disabled && state.overDroppableId === id,
+        isDragging: state.isDragging,
+        draggedId: state.draggedId,
+    }), shallowEqual);
+    const elementRef = useRef<HTMLElement | null>(null);
+
+    // Keep the registration in sync with data and disabled
+    useEffect(() => {
+        if (elementRef.current) {
+            registerDroppable(id, elementRef.current, data, disabled);
+        }
+    }, [id, data, disabled, registerDroppable]);
+
+    // Unregister on unmount or when the ID changes
+    useEffect(() => {
+        return () => {
+            unregisterDroppable(id);
+        };
+    }, [id, unregisterDroppable]);
+
+    const ref = useCallback((node: HTMLElement | null) => {
+        elementRef.current = node;
+        if (node) {
+            registerDroppable(id, node, data, disabled);
+        } else {
+            unregisterDroppable(id);
+        }
+    }, [id, data, disabled, registerDroppable, unregisterDroppable]);
+
+    return {
+        ref,
+        isOver,
+        isDragging,
+        draggedId,
+    };
+}
@@ -0,0 +1,63 @@
+import { useCallback, useMemo } from "react";
+import { useDragDropContext } from "./DragDropProvider";
+import { useStoreSelector } from "./store";
+
+/**
+ * Hook to read and change the selection used for multi-item drags.
+ * Dragging a selected item moves every selected item of its container.
+ */
+export function useSelection() {
+    const { selectionStore } = useDragDropContext();
+    const selectedIds = useStoreSelector(selectionStore, (ids) => ids);
+
+    const select = useCallback((id: string) => {
+        selectionStore.setState((ids) =>
+            ids.includes(id) ? ids : [...ids, id]
+        );
+    }, [selectionStore]);
+
+    const deselect = useCallback((id: string) => {
+        selectionStore.setState((ids) =>
+            ids.includes(id) ? ids.filter((selected) => selected !== id) : ids
+        );
+    }, [selectionStore]);
+
+    const toggle = useCallback((id: string) => {
+        selectionStore.setState((ids) =>
+            ids.includes(id)
+                ? ids.filter((selected) => selected !== id)
+                : [...ids, id]
+        );
+    }, [selectionStore]);
+
+    const clear = useCallback(() => {
+        selectionStore.setState((ids) => ids.length === 0 ? ids : []);
+    }, [selectionStore]);
+
+    const setSelection = useCallback((ids: string[]) => {
+        selectionStore.setState(ids);
+    }, [selectionStore]);
+
+    const isSelected = useCallback(
+        (id: string) => selectedIds.includes(id),
+        [selectedIds],
+    );
+
+    return useMemo(() => ({
+        selectedIds,
+        isSelected,
+        select,
+        deselect,
+        toggle,
+        clear,
+        setSelection,
+    }), [
+        selectedIds,
+        isSelected,
+        select,
+        deselect,
+        toggle,
+        clear,
+        setSelection,
+    ]);
+}
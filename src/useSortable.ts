@@ -1,130 +1,456 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
-import { useDragDropContext } from "./DragDropProvider";
-import type { Position, UseSortableReturn } from "./types";
+import {
+    getDropIndex,
+    useDragDropContext,
+    useDragSelector,
+} from "./DragDropProvider";
+import { useSortableContainer } from "./SortableContainer";
+import { shallowEqual, useStoreSelector } from "./store";
+import { useDragSensors } from "./useDragSensors";
+import type {
+    DragState,
+    KeyboardDirection,
+    Modifier,
+    Position,
+    Rect,
+    SortingStrategy,
+    UseSortableReturn,
+} from "./types";
+
+type ItemRegistry = Map<string, { index: number; containerId: string | null }>;
+
+/**
+ * Find the layout rect of the item occupying a slot in a container
+ */
+function findSlotRect(
+    items: ItemRegistry,
+    getItemRect: (id: string) => Rect | undefined,
+    containerId: string | null,
+    index: number,
+): Rect | undefined {
+    for (const [id, item] of items) {
+        if (item.containerId === containerId && item.index === index) {
+            return getItemRect(id);
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Count the columns of a grid by counting the slots in its first row
+ */
+function measureColumns(
+    items: ItemRegistry,
+    getItemRect: (id: string) => Rect | undefined,
+    containerId: string | null,
+): number {
+    const first = findSlotRect(items, getItemRect, containerId, 0);
+    if (!first) return 1;
+
+    let columns = 0;
+    for (const [id, item] of items) {
+        if (item.containerId !== containerId) continue;
+        const rect = getItemRect(id);
+        if (rect && Math.abs(rect.top - first.top) < 1) {
+            columns++;
+        }
+    }
+    return Math.max(1, columns);
+}
+
+/**
+ * Measure the spacing between the first two slots of a container
+ */
+function measureGap(
+    items: ItemRegistry,
+    getItemRect: (id: string) => Rect | undefined,
+    containerId: string | null,
+    axis: "x" | "y",
+): number {
+    const first = findSlotRect(items, getItemRect, containerId, 0);
+    const second = findSlotRect(items, getItemRect, containerId, 1);
+    if (!first || !second) return 0;
+
+    return Math.max(
+        0,
+        axis === "x" ? second.left - first.right : second.top - first.bottom,
+    );
+}
+
+/**
+ * Direction an item shifts to make room for the dragged item: -1 towards
+ * the start of its container, 1 towards the end, 0 to stay in place
+ */
+function getDisplacement(
+    state: DragState,
+    index: number,
+    containerId: string | null,
+): number {
+    const draggedIndex = state.draggedIndex;
+    if (draggedIndex === null) return 0;
+
+    const overIndex = state.overIndex ?? draggedIndex;
+    const fromContainerId = state.draggedContainerId;
+    const toContainerId = state.overContainerId;
+
+    if (fromContainerId !== toContainerId) {
+        if (containerId === fromContainerId && index > draggedIndex) {
+            // Source container: close the gap left by the dragged item
+            return -1;
+        }
+        if (containerId === toContainerId && index >= overIndex) {
+            // Target container: open a gap for the incoming item
+            return 1;
+        }
+        return 0;
+    }
+
+    if (containerId !== fromContainerId) return 0;
+    if (draggedIndex < overIndex && index > draggedIndex && index <= overIndex) {
+        // Dragging down: items between dragged and over should move up
+        return -1;
+    }
+    if (draggedIndex > overIndex && index >= overIndex && index < draggedIndex) {
+        // Dragging up: items between over and dragged should move down
+        return 1;
+    }
+    return 0;
+}
 
-interface UseSortableOptions {
+/**
+ * How an item makes room while several items are dragged together: it
+ * closes the gaps left by the moved items before it and, at or past the
+ * drop index, opens a gap for the dragged item
+ */
+function getGroupShift(
+    state: DragState,
+    index: number,
+    containerId: string | null,
+): { movedBefore: number; opensGap: boolean } {
+    const movedBefore = containerId === state.draggedContainerId
+        ? state.draggedIndexes.filter((moved) => moved < index).length
+        : 0;
+    const dropIndex = getDropIndex(state);
+    return {
+        movedBefore,
+        opensGap: containerId === state.overContainerId &&
+            dropIndex !== null && index - movedBefore >= dropIndex,
+    };
+}
+
+interface UseSortableOptions<T = unknown> {
     /** Unique identifier for the sortable item */
     id: string;
+    /** Data delivered with every drag event for this item */
+    data?: T;
     /** Index of the item in the list */
     index: number;
+    /**
+     * ID of the container the item belongs to.
+     * Defaults to the ID of the surrounding SortableContainer.
+     */
+    containerId?: string | null;
+    /**
+     * Layout used to compute displacement.
+     * Defaults to the strategy of the surrounding SortableContainer.
+     */
+    strategy?: SortingStrategy;
     /** Whether dragging is disabled */
     disabled?: boolean;
+    /** Modifiers for this item, applied after the provider's */
+    modifiers?: Modifier[];
+    /**
+     * CSS selector for the drag handle inside the item.
+     * Ignored when an element is attached with handleRef.
+     */
+    handleSelector?: string;
     /** Custom transition duration in ms */
     transitionDuration?: number;
 }
 
-export function useSortable({
+export function useSortable<T = unknown>({
     id,
+    data,
     index,
+    containerId: containerIdOption,
+    strategy: strategyOption,
     disabled = false,
+    handleSelector,
+    modifiers,
     transitionDuration = 200,
-}: UseSortableOptions): UseSortableReturn {
+}: UseSortableOptions<T>): UseSortableReturn {
     const context = useDragDropContext();
+    const sortableContainer = useSortableContainer();
+    const containerId = containerIdOption !== undefined
+        ? containerIdOption
+        : sortableContainer?.id ?? null;
+    const strategy = strategyOption ?? sortableContainer?.strategy ??
+        "vertical";
     const {
-        state,
+        store,
+        scrollStore,
+        selectionStore,
         config,
         registerItem,
         unregisterItem,
         startDrag,
-        updateDrag,
-        scrollOffset,
+        moveDragTo,
     } = context;
 
     const elementRef = useRef<HTMLElement | null>(null);
     const handleElementRef = useRef<HTMLElement | null>(null);
-    const activationTimeoutRef = useRef<NodeJS.Timeout | null>(null);
-    const startPositionRef = useRef<Position | null>(null);
-    const isActivatedRef = useRef(false);
 
     const [localTransform, setLocalTransform] = useState<
         { x: number; y: number } | null
     >(null);
 
-    const isDragging = state.draggedId === id;
-    const isOver = state.overIndex === index && state.draggedId !== id;
-    const isAnotherDragging = state.isDragging && state.draggedId !== id;
+    // Select only what affects this item, so a pointer move re-renders the
+    // dragged item and the items whose displacement changed
+    const {
+        isDragging,
+        isOver,
+        isAnotherDragging,
+        isCollapsed,
+        isGroupDrag,
+        displacement,
+        movedBefore,
+        opensGap,
+        draggedId,
+    } = useDragSelector((state) => {
+        const isDragging = state.draggedId === id;
+        // Free-form draggables (null index) never displace sortable items
+        const isAnotherDragging = state.isDragging && !isDragging &&
+            state.draggedIndex !== null;
+        // Other selected items travel with the dragged one
+        const isCollapsed = isAnotherDragging && state.draggedIds.includes(id);
+        const isGroupDrag = state.draggedIds.length > 1;
+        const isDisplaced = isAnotherDragging && !isCollapsed;
+        return {
+            isDragging,
+            isOver: state.overIndex === index &&
+                state.overContainerId === containerId && !isDragging,
+            isAnotherDragging,
+            isCollapsed,
+            isGroupDrag,
+            displacement: isDisplaced
+                ? getDisplacement(state, index, containerId)
+                : 0,
+            ...(isDisplaced && isGroupDrag
+                ? getGroupShift(state, index, containerId)
+                : { movedBefore: 0, opensGap: false }),
+            draggedId: isAnotherDragging ? state.draggedId : null,
+        };
+    }, shallowEqual);
+    const isSelected = useStoreSelector(
+        selectionStore,
+        (ids) => ids.includes(id),
+    );
+    const currentPosition = useDragSelector((state) =>
+        state.draggedId === id ? state.currentPosition : null
+    );
+    const initialPosition = useDragSelector((state) =>
+        state.draggedId === id ? state.initialPosition : null
+    );
+    const scrollOffset = useStoreSelector(
+        scrollStore,
+        (offset) => isDragging ? offset : null,
+    );
 
     // Register/unregister on mount/unmount
     useEffect(() => {
         if (elementRef.current) {
-            registerItem(id, index, elementRef.current);
+            registerItem(id, index, elementRef.current, containerId, data);
         }
         return () => {
             unregisterItem(id);
         };
-    }, [id, index, registerItem, unregisterItem]);
+    }, [id, index, containerId, registerItem, unregisterItem]);
 
-    // Update registration when index changes
+    // Update registration when index or data changes
     useEffect(() => {
         if (elementRef.current) {
-            registerItem(id, index, elementRef.current);
+            registerItem(id, index, elementRef.current, containerId, data);
         }
-    }, [id, index, registerItem]);
+    }, [id, index, containerId, data, registerItem]);
 
     // Calculate transform for displacement during drag
     useEffect(() => {
-        if (!isAnotherDragging || !elementRef.current) {
+        if (
+            !isAnotherDragging || isCollapsed || !elementRef.current ||
+            draggedId === null
+        ) {
             setLocalTransform(null);
             return;
         }
 
-        const draggedIndex = state.draggedIndex!;
-        const overIndex = state.overIndex ?? draggedIndex;
+        const { items, getItemRect } = context;
+        // Virtualized containers rarely keep their first two slots mounted,
+        // so use the configured gap rather than measuring it
+        const virtual = sortableContainer?.virtual;
+        const getGap = (axis: "x" | "y") =>
+            virtual
+                ? virtual.gap ?? 0
+                : measureGap(items, getItemRect, containerId, axis);
+
+        if (isGroupDrag && strategy !== "grid") {
+            // Lists close up behind every moved item and open a single gap
+            // the size of the dragged item
+            const axis = strategy === "horizontal" ? "x" : "y";
+            const gap = getGap(axis);
+            const sizeOf = (rect: Rect) =>
+                (axis === "x" ? rect.width : rect.height) + gap;
+
+            let distance = 0;
+            if (movedBefore > 0) {
+                const { draggedIds, draggedIndexes } = store.getState();
+                draggedIds.forEach((movedId, i) => {
+                    const rect = getItemRect(movedId);
+                    if (draggedIndexes[i] < index && rect) {
+                        distance -= sizeOf(rect);
+                    }
+                });
+            }
+            const draggedRect = getItemRect(draggedId);
+            if (opensGap && draggedRect) {
+                distance += sizeOf(draggedRect);
+            }
 
-        // Determine if this item should be displaced
-        let shouldDisplace = false;
-        let direction = 0;
+            setLocalTransform(
+                distance === 0
+                    ? null
+                    : axis === "x"
+                    ? { x: distance, y: 0 }
+                    : { x: 0, y: distance },
+            );
+            return;
+        }
 
-        if (draggedIndex < overIndex) {
-            // Dragging down: items between dragged and over should move up
-            if (index > draggedIndex && index <= overIndex) {
-                shouldDisplace = true;
-                direction = -1;
+        if (isGroupDrag) {
+            // Grids move each item into the slot of its rank once the moved
+            // items are taken out and the dragged item's slot is inserted,
+            // matching getDropIndex
+            const target = index - movedBefore + (opensGap ? 1 : 0);
+            const ownRect = getItemRect(id);
+            if (target === index || !ownRect) {
+                setLocalTransform(null);
+                return;
             }
-        } else if (draggedIndex > overIndex) {
-            // Dragging up: items between over and dragged should move down
-            if (index >= overIndex && index < draggedIndex) {
-                shouldDisplace = true;
-                direction = 1;
+
+            const slotRect = findSlotRect(
+                items,
+                getItemRect,
+                containerId,
+                target,
+            );
+            if (slotRect) {
+                setLocalTransform({
+                    x: slotRect.left - ownRect.left,
+                    y: slotRect.top - ownRect.top,
+                });
+                return;
             }
+
+            // Pushed past the last slot: continue the last row
+            const lastRect = findSlotRect(
+                items,
+                getItemRect,
+                containerId,
+                target - 1,
+            );
+            const gap = getGap("x");
+            setLocalTransform(
+                lastRect
+                    ? {
+                        x: lastRect.right + gap - ownRect.left,
+                        y: lastRect.top - ownRect.top,
+                    }
+                    : null,
+            );
+            return;
         }
 
-        if (shouldDisplace && elementRef.current) {
-            // Get height of dragged element for displacement
-            const draggedElement = context.getItemElement(state.draggedId!);
-            if (draggedElement) {
-                const height = draggedElement.offsetHeight;
-                setLocalTransform({ x: 0, y: direction * (height + 16) }); // 16px for gap
-            }
-        } else {
+        const direction = displacement;
+        if (direction === 0) {
+            setLocalTransform(null);
+            return;
+        }
+
+        const ownRect = getItemRect(id);
+        const draggedRect = getItemRect(draggedId);
+        if (!ownRect || !draggedRect) {
             setLocalTransform(null);
+            return;
+        }
+
+        if (strategy === "grid") {
+            // Slide into the slot of the neighbour this item is replacing
+            const slotRect = findSlotRect(
+                items,
+                getItemRect,
+                containerId,
+                index + direction,
+            );
+            if (slotRect) {
+                setLocalTransform({
+                    x: slotRect.left - ownRect.left,
+                    y: slotRect.top - ownRect.top,
+                });
+                return;
+            }
+
+            // Last item of the target container has no slot to move into
+            const gap = getGap("x");
+            setLocalTransform({ x: direction * (ownRect.width + gap), y: 0 });
+            return;
         }
+
+        // Lists shift by the size of the dragged item along the main axis
+        const axis = strategy === "horizontal" ? "x" : "y";
+        const gap = getGap(axis);
+        const distance = axis === "x"
+            ? draggedRect.width + gap
+            : draggedRect.height + gap;
+
+        setLocalTransform(
+            axis === "x"
+                ? { x: direction * distance, y: 0 }
+                : { x: 0, y: direction * distance },
+        );
     }, [
         isAnotherDragging,
-        state.draggedIndex,
-        state.overIndex,
-        state.draggedId,
+        isCollapsed,
+        isGroupDrag,
+        displacement,
+        movedBefore,
+        opensGap,
+        draggedId,
+        id,
         index,
+        containerId,
+        strategy,
+        sortableContainer?.virtual,
+        store,
         context,
     ]);
 
     // Calculate transform for the dragged element
     const dragTransform = useMemo(() => {
-        if (!isDragging || !state.currentPosition || !state.initialPosition) {
+        if (!currentPosition || !initialPosition || !scrollOffset) {
             return null;
         }
         // Apply scroll offset compensation to keep the element under the pointer
         return {
-            x: state.currentPosition.x - state.initialPosition.x +
-                scrollOffset.x,
-            y: state.currentPosition.y - state.initialPosition.y +
-                scrollOffset.y,
+            // In trees the horizontal movement picks the depth instead
+            x: sortableContainer?.tree
+                ? 0
+                : currentPosition.x - initialPosition.x + scrollOffset.x,
+            y: currentPosition.y - initialPosition.y + scrollOffset.y,
         };
     }, [
-        isDragging,
-        state.currentPosition,
-        state.initialPosition,
+        currentPosition,
+        initialPosition,
         scrollOffset,
+        sortableContainer?.tree,
     ]);
 
     const transform = isDragging ? dragTransform : localTransform;
@@ -139,179 +465,132 @@ export function useSortable({
         return undefined;
     }, [isDragging, isAnotherDragging, transitionDuration]);
 
-    // Pointer/touch handlers
-    const handlePointerDown = useCallback((e: React.PointerEvent) => {
-        if (disabled) return;
-
-        // Only handle primary button or touch
-        if (e.pointerType === "mouse" && e.button !== 0) return;
-
-        const position = { x: e.clientX, y: e.clientY };
-        startPositionRef.current = position;
-        isActivatedRef.current = false;
-
-        // Set up activation with delay
-        activationTimeoutRef.current = setTimeout(() => {
-            if (elementRef.current && startPositionRef.current) {
-                isActivatedRef.current = true;
-                startDrag(
-                    id,
-                    index,
-                    startPositionRef.current,
-                    elementRef.current,
-                );
-            }
-        }, config.activationDelay);
+    /**
+     * Check whether a pointer/touch started on the drag handle.
+     * Without a handle the whole element activates the drag, except for
+     * sortable items nested inside it (e.g. cards in a kanban column),
+     * which start their own drag.
+     */
+    const isHandleTarget = useCallback((target: EventTarget | null) => {
+        if (!(target instanceof Node)) return false;
+
+        if (handleElementRef.current) {
+            return handleElementRef.current.contains(target);
+        }
 
-        // Prevent text selection and context menu
-        e.preventDefault();
-    }, [disabled, id, index, config.activationDelay, startDrag]);
+        const element = target instanceof Element
+            ? target
+            : target.parentElement;
 
-    const handlePointerMove = useCallback((e: React.PointerEvent) => {
-        const position = { x: e.clientX, y: e.clientY };
+        if (handleSelector) {
+            const handle = element?.closest(handleSelector);
+            return !!handle && !!elementRef.current?.contains(handle);
+        }
 
-        // Check for early activation via distance
-        if (
-            startPositionRef.current && !isActivatedRef.current &&
-            activationTimeoutRef.current
-        ) {
-            const distance = Math.sqrt(
-                Math.pow(position.x - startPositionRef.current.x, 2) +
-                    Math.pow(position.y - startPositionRef.current.y, 2),
-            );
+        const sortable = element?.closest("[data-sortable-id]");
+        return !sortable || sortable === elementRef.current ||
+            !elementRef.current?.contains(sortable);
+    }, [handleSelector]);
 
-            if (distance >= config.activationDistance) {
-                clearTimeout(activationTimeoutRef.current);
-                activationTimeoutRef.current = null;
-                isActivatedRef.current = true;
-
-                if (elementRef.current) {
-                    startDrag(
-                        id,
-                        index,
-                        startPositionRef.current,
-                        elementRef.current,
-                    );
-                }
-            }
+    const handleActivate = useCallback((position: Position) => {
+        if (elementRef.current) {
+            startDrag(id, index, position, elementRef.current, {
+                containerId,
+                modifiers,
+            });
         }
-
-        if (isActivatedRef.current) {
-            updateDrag(position);
+    }, [id, index, containerId, modifiers, startDrag]);
+
+    // Keyboard sorting: move the over-index along the layout's axes
+    const handleStep = useCallback((direction: KeyboardDirection) => {
+        const { items, getItemRect } = context;
+        const horizontalStep = strategy === "vertical" ? 0 : 1;
+        const verticalStep = strategy === "horizontal"
+            ? 0
+            : strategy === "grid"
+            ? sortableContainer?.columns ??
+                measureColumns(items, getItemRect, containerId)
+            : 1;
+
+        let step = 0;
+        if (config.lockAxis !== "y") {
+            if (direction === "left") step = -horizontalStep;
+            if (direction === "right") step = horizontalStep;
         }
-    }, [id, index, config.activationDistance, startDrag, updateDrag]);
-
-    const handlePointerUp = useCallback(() => {
-        if (activationTimeoutRef.current) {
-            clearTimeout(activationTimeoutRef.current);
-            activationTimeoutRef.current = null;
+        if (config.lockAxis !== "x") {
+            if (direction === "up") step = -verticalStep;
+            if (direction === "down") step = verticalStep;
         }
-        startPositionRef.current = null;
-        isActivatedRef.current = false;
-    }, []);
+        if (step === 0) return;
 
-    // Touch handlers for better mobile support
-    const handleTouchStart = useCallback((e: React.TouchEvent) => {
-        if (disabled || e.touches.length !== 1) return;
-
-        const touch = e.touches[0];
-        const position = { x: touch.clientX, y: touch.clientY };
-        startPositionRef.current = position;
-        isActivatedRef.current = false;
-
-        activationTimeoutRef.current = setTimeout(() => {
-            if (elementRef.current && startPositionRef.current) {
-                isActivatedRef.current = true;
-                startDrag(
-                    id,
-                    index,
-                    startPositionRef.current,
-                    elementRef.current,
-                );
+        // Virtualized containers only mount some of their items
+        let count = sortableContainer?.virtual?.count ?? 0;
+        if (!sortableContainer?.virtual) {
+            for (const item of items.values()) {
+                if (item.containerId === containerId) count++;
             }
-        }, config.activationDelay);
-    }, [disabled, id, index, config.activationDelay, startDrag]);
-
-    // Cleanup on unmount
-    useEffect(() => {
-        return () => {
-            if (activationTimeoutRef.current) {
-                clearTimeout(activationTimeoutRef.current);
-            }
-        };
-    }, []);
-
-    // Global pointer move handler when dragging
-    useEffect(() => {
-        if (!isDragging) return;
-
-        const handleGlobalPointerMove = (e: PointerEvent) => {
-            updateDrag({ x: e.clientX, y: e.clientY });
-        };
-
-        const handleGlobalTouchMove = (e: TouchEvent) => {
-            if (e.touches.length === 1) {
-                const touch = e.touches[0];
-                updateDrag({ x: touch.clientX, y: touch.clientY });
-            }
-        };
-
-        window.addEventListener("pointermove", handleGlobalPointerMove);
-        window.addEventListener("touchmove", handleGlobalTouchMove, {
-            passive: false,
-        });
+        }
 
-        return () => {
-            window.removeEventListener("pointermove", handleGlobalPointerMove);
-            window.removeEventListener("touchmove", handleGlobalTouchMove);
-        };
-    }, [isDragging, updateDrag]);
+        const currentIndex = store.getState().overIndex ?? index;
+        const nextIndex = Math.min(
+            count - 1,
+            Math.max(0, currentIndex + step),
+        );
+        if (nextIndex !== currentIndex) {
+            moveDragTo(nextIndex);
+        }
+    }, [
+        store,
+        index,
+        containerId,
+        strategy,
+        sortableContainer?.columns,
+        sortableContainer?.virtual,
+        config.lockAxis,
+        context,
+        moveDragTo,
+    ]);
 
-    // Keyboard handler for accessibility
-    const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
-        if (disabled) return;
-        // TODO: Implement keyboard navigation
-    }, [disabled]);
+    const listeners = useDragSensors({
+        elementRef,
+        disabled,
+        isDragging,
+        canActivate: isHandleTarget,
+        onActivate: handleActivate,
+        onStep: handleStep,
+    });
 
     const ref = useCallback((node: HTMLElement | null) => {
         elementRef.current = node;
         if (node) {
-            registerItem(id, index, node);
+            registerItem(id, index, node, containerId, data);
         }
-    }, [id, index, registerItem]);
+    }, [id, index, containerId, data, registerItem]);
 
     const handleRef = useCallback((node: HTMLElement | null) => {
         handleElementRef.current = node;
+        if (node) {
+            // Only the handle blocks native scrolling, the rest of the item
+            // keeps its default touch behaviour
+            node.style.touchAction = "none";
+        }
     }, []);
 
     const attributes = useMemo(() => ({
         role: "listitem",
         tabIndex: disabled ? -1 : 0,
         "aria-roledescription": "sortable",
-        "aria-describedby": `sortable-${id}-description`,
+        "aria-describedby": context.descriptionId,
         "data-sortable-id": id,
-    }), [id, disabled]);
-
-    const listeners = useMemo(() => ({
-        onPointerDown: handlePointerDown,
-        onPointerMove: handlePointerMove,
-        onPointerUp: handlePointerUp,
-        onPointerCancel: handlePointerUp,
-        onTouchStart: handleTouchStart,
-        onKeyDown: handleKeyDown,
-    }), [
-        handlePointerDown,
-        handlePointerMove,
-        handlePointerUp,
-        handleTouchStart,
-        handleKeyDown,
-    ]);
+    }), [id, disabled, context.descriptionId]);
 
     return {
         ref,
         handleRef,
         isDragging,
         isOver,
+        isSelected,
+        isCollapsed,
         transform,
         transition,
         attributes,
@@ -0,0 +1,23 @@
+import { getTreeProjection, useDragSelector } from "./DragDropProvider";
+import { useSortableContainer } from "./SortableContainer";
+import { shallowEqual } from "./store";
+import type { TreeProjection } from "./types";
+
+/**
+ * Hook to read where the dragged item of the surrounding tree container
+ * would land, e.g. to indent it while dragging. Re-renders only when the
+ * projection changes.
+ */
+export function useTreeProjection(): TreeProjection | null {
+    const container = useSortableContainer();
+    const tree = container?.tree;
+    const containerId = container?.id ?? null;
+
+    return useDragSelector(
+        (state) =>
+            tree && state.draggedContainerId === containerId
+                ? getTreeProjection(state, tree)
+                : null,
+        shallowEqual,
+    );
+}